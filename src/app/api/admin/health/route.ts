@@ -0,0 +1,17 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAdminRequest } from '@/lib/admin';
+import { circuitBreakers } from '@/lib/circuit-breaker';
+
+export async function GET(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  // Breakers appear once their provider or model has been called
+  return NextResponse.json({
+    circuits: circuitBreakers.listStatus()
+  });
+}
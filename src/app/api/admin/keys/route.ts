@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAdminRequest } from '@/lib/admin';
+import { getCredentialPool, listCredentialPools } from '@/lib/credentials';
+import { searchProviderRegistry } from '@/lib/search/registry';
+
+export async function GET(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  // Key-based search providers create their pools when the registry loads;
+  // make sure the OpenRouter pool is listed even before the first research run
+  getCredentialPool('OPENROUTER_API_KEY');
+
+  return NextResponse.json({
+    pools: listCredentialPools(),
+    providers: searchProviderRegistry.listProviders()
+  });
+}
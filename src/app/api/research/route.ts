@@ -1,10 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createOpenRouterClient } from '@/lib/openrouter';
+import { getCredentialPool } from '@/lib/credentials';
+import { CredibilityProfile, getCredibilityProfile, listCredibilityProfiles } from '@/lib/credibility';
+import { getMinFreshnessScore, isQueryExpansionEnabledByDefault } from '@/lib/config';
+import { formatCacheStats } from '@/lib/cache';
+import { formatStructuredOutputStats } from '@/lib/structured-output';
+import { summarizeInjectionDetections } from '@/lib/content/injection';
+import { summarizeCitationChecks } from '@/lib/content/quotes';
 import { modelRouter } from '@/lib/models';
 import { PlannerAgent } from '@/lib/agents/planner';
-import { SearcherAgent } from '@/lib/agents/searcher';
+import { SearcherAgent, SearchMode } from '@/lib/agents/searcher';
 import { EvaluatorAgent } from '@/lib/agents/evaluator';
+import { ConsensusAgent } from '@/lib/agents/consensus';
 import { SynthesizerAgent } from '@/lib/agents/synthesizer';
+import { dedupeSearchResults } from '@/lib/search/dedupe';
+import { describeSearchFilters, parseSearchFilters } from '@/lib/search/filters';
+import { SearchFilters } from '@/lib/search/types';
 import { ReportStorage } from '@/lib/storage';
 import { VercelReportStorage } from '@/lib/storage-vercel';
 import { researchSessionStorage, ResearchSession } from '@/lib/research-session';
@@ -18,14 +29,20 @@ interface ResearchExecutionParams {
   controller: any;
   encoder: any;
   researchMode?: 'normal' | 'max';
+  searchMode?: SearchMode;
+  includeLocalCorpus?: boolean;
+  queryExpansion?: boolean;
+  filters?: SearchFilters;
+  credibilityProfile: CredibilityProfile;
 }
 
 async function executeResearchWithProgression(params: ResearchExecutionParams) {
-  const { session, question, client, usageTracker, sendProgress, controller, encoder, researchMode } = params;
+  const { session, question, client, usageTracker, sendProgress, controller, encoder, researchMode, searchMode, includeLocalCorpus, queryExpansion, filters, credibilityProfile } = params;
 
   let planningResult = session.planningResult;
   let searchResults = session.searchResults;
   let evaluationResults = session.evaluationResults;
+  let consensusAnalysis = session.consensusAnalysis;
   let synthesisResult = session.synthesisResult;
 
   // Phase 1: Planning (if not already completed)
@@ -34,7 +51,7 @@ async function executeResearchWithProgression(params: ResearchExecutionParams) {
     researchSessionStorage.updateSession(session.id, { status: 'planning' });
 
     const planner = new PlannerAgent(client);
-    planningResult = await planner.planResearch(question);
+    planningResult = await planner.planResearch(question, filters);
 
     // Track planning model usage
     usageTracker.trackUsage(modelRouter.getModelForTask('planning'), 500, 300);
@@ -52,20 +69,31 @@ async function executeResearchWithProgression(params: ResearchExecutionParams) {
 
   // Phase 2: Searching (if not already completed)
   if (!searchResults) {
-    sendProgress('Searching for information', 25);
+    const filterSummary = describeSearchFilters(filters);
+    sendProgress('Searching for information', 25, filterSummary ? `Filters: ${filterSummary}` : undefined);
     researchSessionStorage.updateSession(session.id, { status: 'searching' });
 
-    const searcher = new SearcherAgent(client);
-
-    // Add progress updates during search
-    const searchInterval = setInterval(() => {
-      sendProgress('Searching for information', 25, `Searching web sources...`);
-    }, 5000);
+    const searcher = new SearcherAgent(client, {
+      searchMode,
+      includeLocalCorpus,
+      expandQueries: queryExpansion,
+      filters
+    });
 
-    searchResults = await searcher.searchAllSubtopics(planningResult.subtopics, question);
-    clearInterval(searchInterval);
+    // Report each subtopic as soon as its search finishes
+    searchResults = await searcher.searchAllSubtopics(planningResult.subtopics, question, {
+      timeSensitiveSubtopics: planningResult.timeSensitiveSubtopics,
+      onProgress: progress => {
+        const outcome = progress.failed ? 'no sources found' : `${progress.resultCount} sources`;
+        sendProgress(
+          'Searching for information',
+          25 + Math.round((progress.completed / progress.total) * 15),
+          `Searched ${progress.completed}/${progress.total} subtopics - "${progress.subtopic}": ${outcome}`
+        );
+      }
+    });
 
-    const totalSources = searchResults.reduce((sum, result) => sum + result.results.length, 0);
+    const { totalResults, uniqueSources } = dedupeSearchResults(searchResults);
 
     // Save search results
     researchSessionStorage.updateSession(session.id, {
@@ -73,7 +101,11 @@ async function executeResearchWithProgression(params: ResearchExecutionParams) {
       status: 'searching'
     });
 
-    sendProgress('Sources gathered', 40, `Found ${totalSources} potential sources`);
+    sendProgress(
+      'Sources gathered',
+      40,
+      `Found ${uniqueSources} unique sources (${totalResults} results across subtopics; ${formatCacheStats('search cache', searcher.getCacheStats())})`
+    );
   } else {
     const totalSources = searchResults.reduce((sum, result) => sum + result.results.length, 0);
     sendProgress('Resuming from search phase', 40, `Using ${totalSources} previously found sources`);
@@ -81,26 +113,43 @@ async function executeResearchWithProgression(params: ResearchExecutionParams) {
 
   // Phase 3: Evaluation (if not already completed)
   if (!evaluationResults) {
-    sendProgress('Evaluating sources', 45);
+    sendProgress('Evaluating sources', 45, `Credibility profile: ${credibilityProfile.id}`);
     researchSessionStorage.updateSession(session.id, { status: 'evaluating' });
 
-    const evaluator = new EvaluatorAgent(client, researchMode);
+    const evaluator = new EvaluatorAgent(client, researchMode, credibilityProfile, question);
 
-    // Add progress updates during evaluation
-    const evalInterval = setInterval(() => {
-      sendProgress('Evaluating sources', 45, `Analyzing source credibility...`);
-    }, 5000);
-
-    evaluationResults = await evaluator.evaluateSearchResults(searchResults);
-    clearInterval(evalInterval);
+    // Report each source as soon as its evaluation finishes
+    evaluationResults = await evaluator.evaluateSearchResults(searchResults, {
+      onProgress: progress => {
+        sendProgress(
+          'Evaluating sources',
+          45 + Math.round((progress.completed / progress.total) * 15),
+          `${progress.completed}/${progress.total} sources evaluated - ${progress.title}`
+        );
+      }
+    });
 
     const evalInterval2 = setInterval(() => {
       sendProgress('Evaluating sources', 60, `Filtering high-quality content...`);
     }, 5000);
 
-    const highQualityResults = await evaluator.filterHighQualityContent(evaluationResults, 5, 4);
+    const highQualityResults = await evaluator.filterHighQualityContent(
+      evaluationResults,
+      5,
+      4,
+      getMinFreshnessScore(),
+      planningResult.timeSensitiveSubtopics || []
+    );
     clearInterval(evalInterval2);
     const highQualityCount = highQualityResults.reduce((sum, result) => sum + result.evaluatedContent.length, 0);
+    const inaccessibleCount = new Set(evaluationResults.flatMap(result =>
+      [...result.evaluatedContent, ...(result.excludedContent || [])]
+        .filter(content => content.accessIssue)
+        .map(content => content.url)
+    )).size;
+    const quoteCounts = summarizeCitationChecks(
+      evaluationResults.flatMap(result => result.evaluatedContent.flatMap(content => content.citationChecks || []))
+    );
 
     // Save evaluation results
     researchSessionStorage.updateSession(session.id, {
@@ -111,13 +160,38 @@ async function executeResearchWithProgression(params: ResearchExecutionParams) {
     // Track evaluation model usage
     usageTracker.trackUsage(modelRouter.getModelForTask('reasoning'), 2000, 1500);
 
-    sendProgress('Sources evaluated', 70, `${highQualityCount} high-quality sources identified`);
+    sendProgress(
+      'Sources evaluated',
+      70,
+      `${highQualityCount} high-quality sources identified (${formatCacheStats('page cache', evaluator.getCacheStats())}); ` +
+        `${inaccessibleCount} inaccessible (paywall, login, captcha or not found); ` +
+        `quotes: ${quoteCounts.verified} verified, ${quoteCounts.paraphrased} paraphrased, ${quoteCounts.unverifiable} unverifiable`
+    );
   } else {
     const highQualityCount = evaluationResults.reduce((sum, result) => sum + result.evaluatedContent.length, 0);
     sendProgress('Resuming from evaluation phase', 70, `Using ${highQualityCount} previously evaluated sources`);
   }
 
-  // Phase 4: Synthesis (if not already completed)
+  // Phase 4: Cross-source comparison (if not already completed)
+  if (!consensusAnalysis) {
+    sendProgress('Comparing sources', 72);
+
+    const consensusAgent = new ConsensusAgent(client);
+    consensusAnalysis = await consensusAgent.analyzeClaims(evaluationResults);
+
+    researchSessionStorage.updateSession(session.id, { consensusAnalysis });
+    if (consensusAnalysis.modelUsed !== 'none') {
+      usageTracker.trackUsage(consensusAnalysis.modelUsed, 2000, 1000);
+    }
+
+    sendProgress(
+      'Sources compared',
+      74,
+      `${consensusAnalysis.consensus.length} points of agreement, ${consensusAnalysis.disputed.length} disputed across ${consensusAnalysis.sourcesAnalyzed} sources`
+    );
+  }
+
+  // Phase 5: Synthesis (if not already completed)
   if (!synthesisResult) {
     sendProgress('Generating research report', 75);
     researchSessionStorage.updateSession(session.id, { status: 'synthesizing' });
@@ -129,7 +203,7 @@ async function executeResearchWithProgression(params: ResearchExecutionParams) {
       sendProgress('Generating research report', 75, `Writing comprehensive report...`);
     }, 5000);
 
-    synthesisResult = await synthesizer.synthesizeReport(question, planningResult, evaluationResults);
+    synthesisResult = await synthesizer.synthesizeReport(question, planningResult, evaluationResults, consensusAnalysis);
     clearInterval(synthInterval);
 
     // Save synthesis result
@@ -148,13 +222,14 @@ async function executeResearchWithProgression(params: ResearchExecutionParams) {
     planningResult,
     searchResults,
     evaluationResults,
+    consensusAnalysis,
     synthesisResult
   };
 }
 
 export async function POST(request: NextRequest) {
   try {
-    const { question, sessionId, resume, researchMode } = await request.json();
+    const { question, sessionId, resume, researchMode, searchMode, includeLocalCorpus, queryExpansion, filters, credibilityProfile: profileId } = await request.json();
 
     if (!question) {
       return NextResponse.json(
@@ -163,9 +238,20 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Use API key from environment variable
-    const apiKey = process.env.OPENROUTER_API_KEY;
-    if (!apiKey) {
+    const credibilityProfile = getCredibilityProfile(typeof profileId === 'string' && profileId.trim() ? profileId.trim() : undefined);
+    if (!credibilityProfile) {
+      return NextResponse.json(
+        {
+          error: `Unknown credibility profile "${profileId}"`,
+          availableProfiles: listCredibilityProfiles().map(profile => profile.id)
+        },
+        { status: 400 }
+      );
+    }
+
+    // Use API keys from environment variables (OPENROUTER_API_KEY / OPENROUTER_API_KEYS)
+    const credentials = getCredentialPool('OPENROUTER_API_KEY');
+    if (credentials.size === 0) {
       return NextResponse.json(
         { error: 'API key not configured on server' },
         { status: 500 }
@@ -244,7 +330,7 @@ export async function POST(request: NextRequest) {
             }
           };
 
-          const client = createOpenRouterClient(apiKey);
+          const client = createOpenRouterClient(credentials);
           const usageTracker = modelRouter.createModelUsageTracker();
 
           sendProgress('Initializing research pipeline', 0);
@@ -261,10 +347,25 @@ export async function POST(request: NextRequest) {
             sendProgress,
             controller,
             encoder,
-            researchMode: researchMode || 'normal'
+            researchMode: researchMode || 'normal',
+            searchMode: ['academic', 'local'].includes(searchMode) ? searchMode : 'web',
+            includeLocalCorpus: Boolean(includeLocalCorpus),
+            queryExpansion: typeof queryExpansion === 'boolean' ? queryExpansion : isQueryExpansionEnabledByDefault(),
+            filters: parseSearchFilters(filters),
+            credibilityProfile
           });
 
-          sendProgress('Finalizing report', 90);
+          // Parse failures and repairs of model output across every agent in this run
+          const structuredOutput = client.getStructuredOutputStats();
+          // Sources whose text tried to instruct the models
+          const promptInjection = summarizeInjectionDetections(researchData.evaluationResults.flatMap(result =>
+            [...result.evaluatedContent, ...(result.excludedContent || [])]
+          ));
+          sendProgress(
+            'Finalizing report',
+            90,
+            `${formatStructuredOutputStats(structuredOutput)}; ${promptInjection.sourcesFlagged} sources flagged for prompt injection`
+          );
 
           // Generate report metadata
           const filename = ReportStorage.generateFilename();
@@ -304,7 +405,9 @@ export async function POST(request: NextRequest) {
               totalTokens: usage.totalTokens,
               modelsUsed: usage.modelsUsed,
               subtopicsInvestigated: researchData.planningResult.subtopics.length,
-              sourcesEvaluated: totalSources
+              sourcesEvaluated: totalSources,
+              structuredOutput,
+              promptInjection
             }
           });
 
@@ -322,7 +425,9 @@ export async function POST(request: NextRequest) {
               totalTokens: usage.totalTokens,
               modelsUsed: usage.modelsUsed,
               subtopicsInvestigated: researchData.planningResult.subtopics.length,
-              sourcesEvaluated: totalSources
+              sourcesEvaluated: totalSources,
+              structuredOutput,
+              promptInjection
             }
           });
 
@@ -97,7 +97,12 @@ export default function Home() {
     setResumeData(null);
     setResearchData({
       question: researchData.question,
-      researchMode: currentResearchMode
+      researchMode: currentResearchMode,
+      searchMode: researchData.searchMode,
+      includeLocalCorpus: researchData.includeLocalCorpus,
+      queryExpansion: researchData.queryExpansion,
+      filters: researchData.filters,
+      credibilityProfile: researchData.credibilityProfile
     });
   };
 
@@ -5,6 +5,20 @@ import { useState, useEffect } from 'react';
 export interface ResearchFormData {
   question: string;
   researchMode?: 'normal' | 'max';
+  searchMode?: 'web' | 'academic' | 'local';
+  includeLocalCorpus?: boolean;
+  queryExpansion?: boolean;
+  filters?: ResearchFilters;
+  credibilityProfile?: string;
+}
+
+export interface ResearchFilters {
+  includeDomains?: string[];
+  excludeDomains?: string[];
+  startDate?: string;
+  endDate?: string;
+  language?: string;
+  region?: string;
 }
 
 export interface ResearchFormProps {
@@ -17,6 +31,35 @@ export interface ResearchFormProps {
 export function ResearchForm({ onSubmit, isLoading = false, disabled = false, initialMode = 'normal' }: ResearchFormProps) {
   const [question, setQuestion] = useState('');
   const [researchMode, setResearchMode] = useState<'normal' | 'max'>(initialMode);
+  const [searchMode, setSearchMode] = useState<'web' | 'academic' | 'local'>('web');
+  const [includeLocalCorpus, setIncludeLocalCorpus] = useState(false);
+  const [queryExpansion, setQueryExpansion] = useState(false);
+  const [showAdvanced, setShowAdvanced] = useState(false);
+  const [includeDomains, setIncludeDomains] = useState('');
+  const [excludeDomains, setExcludeDomains] = useState('');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [language, setLanguage] = useState('');
+  const [region, setRegion] = useState('');
+  const [credibilityProfile, setCredibilityProfile] = useState('');
+
+  const buildFilters = (): ResearchFilters | undefined => {
+    const splitDomains = (value: string) => {
+      const domains = value.split(/[\s,]+/).filter(domain => domain.length > 0);
+      return domains.length > 0 ? domains : undefined;
+    };
+    const filters: ResearchFilters = {
+      includeDomains: splitDomains(includeDomains),
+      excludeDomains: splitDomains(excludeDomains),
+      startDate: startDate || undefined,
+      endDate: endDate || undefined,
+      language: language.trim() || undefined,
+      region: region.trim() || undefined
+    };
+
+    // The server validates these again; send nothing when every field is empty
+    return Object.values(filters).some(value => value !== undefined) ? filters : undefined;
+  };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -28,7 +71,14 @@ export function ResearchForm({ onSubmit, isLoading = false, disabled = false, in
 
     onSubmit({
       question: question.trim(),
-      researchMode
+      researchMode,
+      searchMode,
+      includeLocalCorpus: searchMode !== 'local' && includeLocalCorpus,
+      // Unchecked leaves the server default (QUERY_EXPANSION) in charge
+      queryExpansion: queryExpansion || undefined,
+      filters: buildFilters(),
+      // Empty uses the server's default profile (CREDIBILITY_PROFILE)
+      credibilityProfile: credibilityProfile.trim() || undefined
     });
   };
 
@@ -111,6 +161,227 @@ export function ResearchForm({ onSubmit, isLoading = false, disabled = false, in
         </div>
       </div>
 
+      {/* Source Type Selector */}
+      <div>
+        <label className="block text-sm font-medium text-gray-300 mb-3">
+          Sources
+        </label>
+        <div className="grid grid-cols-3 gap-4">
+          <div
+            className={`relative p-4 border rounded-lg cursor-pointer transition-all ${
+              searchMode === 'web'
+                ? 'border-blue-500 bg-blue-500/10'
+                : 'border-gray-700 bg-gray-800 hover:border-gray-600'
+            }`}
+            onClick={() => setSearchMode('web')}
+          >
+            <div className="flex items-center space-x-3">
+              <div className={`w-4 h-4 rounded-full border-2 ${
+                searchMode === 'web'
+                  ? 'border-blue-500 bg-blue-500'
+                  : 'border-gray-600'
+              }`}>
+                {searchMode === 'web' && (
+                  <div className="w-full h-full rounded-full bg-white scale-50"></div>
+                )}
+              </div>
+              <div>
+                <h4 className="font-medium text-gray-100">Web</h4>
+                <p className="text-sm text-gray-400">News, reports and general web pages</p>
+              </div>
+            </div>
+          </div>
+
+          <div
+            className={`relative p-4 border rounded-lg cursor-pointer transition-all ${
+              searchMode === 'academic'
+                ? 'border-emerald-500 bg-emerald-500/10'
+                : 'border-gray-700 bg-gray-800 hover:border-gray-600'
+            }`}
+            onClick={() => setSearchMode('academic')}
+          >
+            <div className="flex items-center space-x-3">
+              <div className={`w-4 h-4 rounded-full border-2 ${
+                searchMode === 'academic'
+                  ? 'border-emerald-500 bg-emerald-500'
+                  : 'border-gray-600'
+              }`}>
+                {searchMode === 'academic' && (
+                  <div className="w-full h-full rounded-full bg-white scale-50"></div>
+                )}
+              </div>
+              <div>
+                <h4 className="font-medium text-gray-100">Academic</h4>
+                <p className="text-sm text-gray-400">Papers from arXiv, Crossref and PubMed</p>
+              </div>
+            </div>
+          </div>
+
+          <div
+            className={`relative p-4 border rounded-lg cursor-pointer transition-all ${
+              searchMode === 'local'
+                ? 'border-amber-500 bg-amber-500/10'
+                : 'border-gray-700 bg-gray-800 hover:border-gray-600'
+            }`}
+            onClick={() => setSearchMode('local')}
+          >
+            <div className="flex items-center space-x-3">
+              <div className={`w-4 h-4 rounded-full border-2 ${
+                searchMode === 'local'
+                  ? 'border-amber-500 bg-amber-500'
+                  : 'border-gray-600'
+              }`}>
+                {searchMode === 'local' && (
+                  <div className="w-full h-full rounded-full bg-white scale-50"></div>
+                )}
+              </div>
+              <div>
+                <h4 className="font-medium text-gray-100">Local</h4>
+                <p className="text-sm text-gray-400">Only your own document folder</p>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        {searchMode !== 'local' && (
+          <label className="mt-3 flex items-center space-x-2 text-sm text-gray-400 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={includeLocalCorpus}
+              onChange={(e) => setIncludeLocalCorpus(e.target.checked)}
+              disabled={disabled || isLoading}
+              className="rounded border-gray-600 bg-gray-800"
+            />
+            <span>Also search local documents</span>
+          </label>
+        )}
+
+        <label className="mt-3 flex items-center space-x-2 text-sm text-gray-400 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={queryExpansion}
+            onChange={(e) => setQueryExpansion(e.target.checked)}
+            disabled={disabled || isLoading}
+            className="rounded border-gray-600 bg-gray-800"
+          />
+          <span>Expand queries (several AI-written searches per subtopic, including opposing views)</span>
+        </label>
+      </div>
+
+      {/* Advanced Search Filters */}
+      <div>
+        <button
+          type="button"
+          onClick={() => setShowAdvanced(!showAdvanced)}
+          className="text-sm font-medium text-gray-300 hover:text-gray-100"
+        >
+          {showAdvanced ? '▾' : '▸'} Advanced options
+        </button>
+
+        {showAdvanced && (
+          <div className="mt-3 grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="includeDomains" className="block text-sm text-gray-400 mb-1">
+                Only these domains
+              </label>
+              <input
+                id="includeDomains"
+                type="text"
+                value={includeDomains}
+                onChange={(e) => setIncludeDomains(e.target.value)}
+                placeholder="nature.com, who.int"
+                className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-gray-100 placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                disabled={disabled || isLoading}
+              />
+            </div>
+            <div>
+              <label htmlFor="excludeDomains" className="block text-sm text-gray-400 mb-1">
+                Exclude domains
+              </label>
+              <input
+                id="excludeDomains"
+                type="text"
+                value={excludeDomains}
+                onChange={(e) => setExcludeDomains(e.target.value)}
+                placeholder="pinterest.com, quora.com"
+                className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-gray-100 placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                disabled={disabled || isLoading}
+              />
+            </div>
+            <div>
+              <label htmlFor="startDate" className="block text-sm text-gray-400 mb-1">
+                Published after
+              </label>
+              <input
+                id="startDate"
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+                className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                disabled={disabled || isLoading}
+              />
+            </div>
+            <div>
+              <label htmlFor="endDate" className="block text-sm text-gray-400 mb-1">
+                Published before
+              </label>
+              <input
+                id="endDate"
+                type="date"
+                value={endDate}
+                onChange={(e) => setEndDate(e.target.value)}
+                className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                disabled={disabled || isLoading}
+              />
+            </div>
+            <div>
+              <label htmlFor="language" className="block text-sm text-gray-400 mb-1">
+                Language (two-letter code)
+              </label>
+              <input
+                id="language"
+                type="text"
+                value={language}
+                onChange={(e) => setLanguage(e.target.value)}
+                placeholder="en"
+                maxLength={2}
+                className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-gray-100 placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                disabled={disabled || isLoading}
+              />
+            </div>
+            <div>
+              <label htmlFor="region" className="block text-sm text-gray-400 mb-1">
+                Region (two-letter country code)
+              </label>
+              <input
+                id="region"
+                type="text"
+                value={region}
+                onChange={(e) => setRegion(e.target.value)}
+                placeholder="us"
+                maxLength={2}
+                className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-gray-100 placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                disabled={disabled || isLoading}
+              />
+            </div>
+            <div>
+              <label htmlFor="credibilityProfile" className="block text-sm text-gray-400 mb-1">
+                Credibility profile
+              </label>
+              <input
+                id="credibilityProfile"
+                type="text"
+                value={credibilityProfile}
+                onChange={(e) => setCredibilityProfile(e.target.value)}
+                placeholder="default"
+                className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-gray-100 placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                disabled={disabled || isLoading}
+              />
+            </div>
+          </div>
+        )}
+      </div>
+
       <div className="flex items-center justify-between">
         <div className="text-sm text-gray-500">
           Research typically takes 2-5 minutes
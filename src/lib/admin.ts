@@ -0,0 +1,12 @@
+import { NextRequest } from 'next/server';
+import { getAdminToken } from './config';
+
+// Admin routes need "Authorization: Bearer <ADMIN_TOKEN>"; with no token
+// configured they are only reachable outside production
+export function isAdminRequest(request: NextRequest): boolean {
+  const token = getAdminToken();
+  if (!token) {
+    return process.env.NODE_ENV !== 'production';
+  }
+  return request.headers.get('authorization') === `Bearer ${token}`;
+}
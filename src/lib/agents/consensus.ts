@@ -0,0 +1,183 @@
+import { OpenRouterClient } from '../openrouter';
+import { modelRouter } from '../models';
+import { UNTRUSTED_CONTENT_NOTICE, wrapUntrusted } from '../content/injection';
+import { canonicalizeUrl } from '../search/url';
+import { EvaluatedContent, EvaluationResult } from './evaluator';
+import { CONSENSUS_SCHEMA, ConsensusOutput } from './schemas';
+
+export interface ConsensusPoint {
+  topic: string;
+  claim: string;
+  // URLs of the sources that make the claim
+  sources: string[];
+}
+
+export interface DisputedPosition {
+  claim: string;
+  sources: string[];
+}
+
+export interface DisputedPoint {
+  topic: string;
+  // Two or more incompatible positions, each backed by different sources
+  positions: DisputedPosition[];
+  // Why the sources may differ (dates, definitions, methodology), when apparent
+  explanation?: string;
+}
+
+export interface ConsensusAnalysis {
+  consensus: ConsensusPoint[];
+  disputed: DisputedPoint[];
+  sourcesAnalyzed: number;
+  modelUsed: string;
+}
+
+// Claims per source and sources per analysis sent to the model
+const MAX_CLAIMS_PER_SOURCE = 6;
+const MAX_SOURCES = 30;
+
+export class ConsensusAgent {
+  private client: OpenRouterClient;
+
+  constructor(client: OpenRouterClient) {
+    this.client = client;
+  }
+
+  // Groups the claims made by the evaluated sources by topic and reports where
+  // two or more sources agree and where they contradict each other
+  async analyzeClaims(evaluationResults: EvaluationResult[]): Promise<ConsensusAnalysis> {
+    const sources = this.collectSources(evaluationResults);
+    if (sources.length < 2) {
+      return { consensus: [], disputed: [], sourcesAnalyzed: sources.length, modelUsed: 'none' };
+    }
+
+    const model = modelRouter.getModelForTask('reasoning');
+    const fallbackModels = modelRouter.getFallbackModels(model);
+
+    try {
+      const { value: output, model: modelUsed } = await this.client.chatStructured(
+        {
+          model,
+          messages: [
+            {
+              role: 'system',
+              content: `You are a fact-checking analyst. Compare claims across sources, identify where they agree and where they contradict each other, and return valid JSON. ${UNTRUSTED_CONTENT_NOTICE}`
+            },
+            {
+              role: 'user',
+              content: this.createAnalysisPrompt(sources)
+            }
+          ],
+          max_tokens: 2000,
+          temperature: 0.2
+        },
+        CONSENSUS_SCHEMA,
+        fallbackModels
+      );
+
+      return {
+        ...this.toAnalysis(output, sources),
+        sourcesAnalyzed: sources.length,
+        modelUsed
+      };
+    } catch (error) {
+      console.error('Consensus analysis error:', error);
+      return { consensus: [], disputed: [], sourcesAnalyzed: sources.length, modelUsed: 'none' };
+    }
+  }
+
+  // One entry per unique source, best sources first
+  private collectSources(evaluationResults: EvaluationResult[]): Array<{ content: EvaluatedContent; claims: string[] }> {
+    const seen = new Set<string>();
+    const sources: Array<{ content: EvaluatedContent; claims: string[] }> = [];
+
+    evaluationResults.flatMap(result => result.evaluatedContent).forEach(content => {
+      const key = canonicalizeUrl(content.url);
+      if (seen.has(key)) return;
+      seen.add(key);
+
+      const citations = content.citationChecks
+        ? content.citationChecks.filter(check => check.status !== 'unverifiable').map(check => check.citation)
+        : content.citations;
+      const claims = [...new Set([...content.keyPoints, ...citations])]
+        .filter(claim => typeof claim === 'string' && claim.trim())
+        .slice(0, MAX_CLAIMS_PER_SOURCE);
+
+      if (claims.length > 0) {
+        sources.push({ content, claims });
+      }
+    });
+
+    return sources
+      .sort((a, b) => (b.content.relevanceScore + b.content.credibilityScore) - (a.content.relevanceScore + a.content.credibilityScore))
+      .slice(0, MAX_SOURCES);
+  }
+
+  private createAnalysisPrompt(sources: Array<{ content: EvaluatedContent; claims: string[] }>): string {
+    const sourceList = sources.map((source, index) => {
+      const claims = source.claims.map(claim => `- ${claim}`).join('\n');
+      return `Source ${index + 1}:\n${wrapUntrusted(`Title: ${source.content.title}\n${claims}`)}`;
+    });
+
+    return `Compare the claims made by these sources.
+
+${sourceList.join('\n\n')}
+
+Group the claims by topic. For each topic covered by at least two sources, decide:
+- consensus: the sources state the same thing (figures within rounding count as the same)
+- disputed: the sources state incompatible things (different figures for the same quantity, opposite conclusions)
+Claims that differ only because they describe different years, regions or definitions are disputed only
+if presented as the same fact; say so in the explanation.
+
+Return a JSON object:
+{
+  "consensus": [
+    { "topic": "short topic", "claim": "the shared claim", "sources": [1, 3] }
+  ],
+  "disputed": [
+    {
+      "topic": "short topic",
+      "positions": [
+        { "claim": "what these sources say", "sources": [2] },
+        { "claim": "what these sources say", "sources": [4, 5] }
+      ],
+      "explanation": "likely reason for the disagreement, or empty"
+    }
+  ]
+}
+
+Only use source numbers from the list above. Return empty arrays when nothing qualifies.`;
+  }
+
+  // Maps source numbers back to URLs and drops points the sources do not support
+  private toAnalysis(
+    output: ConsensusOutput,
+    sources: Array<{ content: EvaluatedContent; claims: string[] }>
+  ): Pick<ConsensusAnalysis, 'consensus' | 'disputed'> {
+    const toUrls = (numbers: number[]): string[] => [...new Set(
+      numbers
+        .map(number => sources[Math.round(number) - 1]?.content.url)
+        .filter((url): url is string => Boolean(url))
+    )];
+
+    const consensus: ConsensusPoint[] = output.consensus
+      .map(point => ({ topic: point.topic.trim(), claim: point.claim.trim(), sources: toUrls(point.sources) }))
+      // Agreement needs at least two sources
+      .filter(point => point.claim && point.sources.length >= 2);
+
+    const disputed: DisputedPoint[] = output.disputed
+      .map(point => ({
+        topic: point.topic.trim(),
+        positions: point.positions
+          .map(position => ({ claim: position.claim.trim(), sources: toUrls(position.sources) }))
+          .filter(position => position.claim && position.sources.length > 0),
+        explanation: point.explanation?.trim() || undefined
+      }))
+      // A dispute needs two positions held by different sources
+      .filter(point =>
+        point.positions.length >= 2 && new Set(point.positions.flatMap(position => position.sources)).size >= 2
+      );
+
+    return { consensus, disputed };
+  }
+}
@@ -1,6 +1,40 @@
-import axios from 'axios';
+import { CacheStats, createCacheStats } from '../cache';
+import { createLimiter, RateLimiter } from '../concurrency';
+import { AccessIssue, detectAccessIssue, SourceInaccessibleError } from '../content/access';
+import { PageMetadata } from '../content/extract';
+import { fetchDocument } from '../content/fetcher';
+import { resolveSourceDates } from '../content/freshness';
+import { DocumentFormat, IngestedDocument, ingestDocument } from '../content/ingest';
+import {
+  InjectionDetection,
+  sanitizeUntrustedText,
+  UNTRUSTED_CONTENT_NOTICE,
+  wrapUntrusted
+} from '../content/injection';
+import { formatPassages, SelectedPassage, selectPassages } from '../content/passages';
+import { CitationCheck, verifyCitations } from '../content/quotes';
+import {
+  getEmbeddingModel,
+  getEvaluationConcurrency,
+  getEvaluationRateLimit,
+  getInaccessibleSourcePolicy,
+  getInjectionCredibilityPenalty,
+  getPassageTokenBudget
+} from '../config';
+import {
+  assessCredibility,
+  CredibilityAssessment,
+  CredibilityProfile,
+  DEFAULT_CREDIBILITY_PROFILE,
+  getCredibilityProfile
+} from '../credibility';
+import { classifySourceType, SourceStance, SourceType } from '../evidence';
 import { OpenRouterClient } from '../openrouter';
 import { modelRouter } from '../models';
+import { dedupeSearchResults } from '../search/dedupe';
+import { AcademicMetadata } from '../search/types';
+import { canonicalizeUrl } from '../search/url';
+import { BATCH_EVALUATION_SCHEMA, SOURCE_EVALUATION_SCHEMA, SourceEvaluationOutput } from './schemas';
 import { SearchResult, SearchResults } from './searcher';
 
 export interface EvaluatedContent {
@@ -9,9 +43,38 @@ export interface EvaluatedContent {
   summary: string;
   keyPoints: string[];
   citations: string[];
+  // Each citation checked against the source text; unverifiable ones are kept
+  // here but not passed on to synthesis
+  citationChecks?: CitationCheck[];
   relevanceScore: number;
   credibilityScore: number;
+  // The credibility profile rule that matched the source, and whether the
+  // final score is the model's or the profile's
+  credibilityBasis?: CredibilityAssessment & { scoredBy: 'model' | 'profile' };
   contentText?: string;
+  academic?: AcademicMetadata;
+  // Title, author, date and canonical URL read from the fetched page
+  page?: PageMetadata;
+  // ISO dates from the page, the search provider or the scholarly record
+  publishedDate?: string;
+  updatedDate?: string;
+  // 0-10, higher is more recent; unset for undated sources
+  freshnessScore?: number;
+  // How the fetched document was read; PDFs keep page numbers in citations
+  format?: DocumentFormat;
+  // The passages of the document the evaluation was based on
+  passages?: SelectedPassage[];
+  // Every subtopic whose search found this source
+  subtopics?: string[];
+  // Set when the page was a paywall, login wall, captcha or soft 404; the
+  // evaluation is then based on the search snippet
+  accessIssue?: AccessIssue;
+  // Kind of publication, and its position on the research question
+  sourceType?: SourceType;
+  stance?: SourceStance;
+  // Instruction-like text found in the page or search snippet; it was removed
+  // before prompting, and the credibility score lowered
+  injectionDetections?: InjectionDetection[];
 }
 
 export interface EvaluationResult {
@@ -20,69 +83,136 @@ export interface EvaluationResult {
   totalSources: number;
   averageRelevance: number;
   averageCredibility: number;
+  // Inaccessible sources left out under INACCESSIBLE_SOURCES=exclude
+  excludedContent?: EvaluatedContent[];
 }
 
+export interface SourceEvaluationProgress {
+  url: string;
+  title: string;
+  subtopic: string;
+  completed: number;
+  total: number;
+}
+
+export interface EvaluateOptions {
+  // Called once per source as soon as its evaluation (or fallback) is ready
+  onProgress?: (progress: SourceEvaluationProgress) => void;
+}
+
+interface FetchedSource {
+  // Text with instruction-like sentences removed
+  document: IngestedDocument;
+  passages: SelectedPassage[];
+  injectionDetections: InjectionDetection[];
+}
+
+interface BatchSource {
+  result: SearchResult;
+  content: string;
+  fetched?: FetchedSource;
+  accessIssue?: AccessIssue;
+}
+
+const EVALUATION_BATCH_SIZE = 4;
+
+// Shared across requests so the evaluation rate limit holds for the whole server
+const evaluationRateLimiter = new RateLimiter({ evaluation: getEvaluationRateLimit() });
+
 export class EvaluatorAgent {
   private client: OpenRouterClient;
   private researchMode?: 'normal' | 'max';
-
-  constructor(client: OpenRouterClient, researchMode?: 'normal' | 'max') {
+  private credibilityProfile: CredibilityProfile;
+  // Stances are judged against this; the subtopic stands in when it is unset
+  private researchQuestion?: string;
+  private inaccessiblePolicy = getInaccessibleSourcePolicy();
+  private cacheStats: CacheStats = createCacheStats();
+
+  constructor(
+    client: OpenRouterClient,
+    researchMode?: 'normal' | 'max',
+    credibilityProfile?: CredibilityProfile,
+    researchQuestion?: string
+  ) {
     this.client = client;
     this.researchMode = researchMode;
+    this.credibilityProfile = credibilityProfile || getCredibilityProfile() || DEFAULT_CREDIBILITY_PROFILE;
+    this.researchQuestion = researchQuestion;
   }
 
-  async evaluateSearchResults(searchResults: SearchResults[]): Promise<EvaluationResult[]> {
-    const results: EvaluationResult[] = [];
-
-    for (const searchResult of searchResults) {
-      try {
-        const evaluationResult = await this.evaluateSubtopic(searchResult);
-        results.push(evaluationResult);
-      } catch (error) {
-        console.error(`Failed to evaluate subtopic: ${searchResult.subtopic}`, error);
-        // Continue with other subtopics
-        results.push({
-          subtopic: searchResult.subtopic,
-          evaluatedContent: [],
-          totalSources: 0,
-          averageRelevance: 0,
-          averageCredibility: 0
-        });
+  async evaluateSearchResults(searchResults: SearchResults[], options: EvaluateOptions = {}): Promise<EvaluationResult[]> {
+    // Each unique source is evaluated once, under the first subtopic that found it
+    const { owned, subtopicsBySource } = dedupeSearchResults(searchResults);
+
+    // Apply source limits based on research mode (max uses all available sources)
+    const selected = owned.map(result => this.researchMode === 'max' ? result.results : result.results.slice(0, 10));
+    const total = selected.reduce((sum, results) => sum + results.length, 0);
+    let completed = 0;
+    const onEvaluated = (content: EvaluatedContent, subtopic: string) => {
+      completed++;
+      options.onProgress?.({ url: content.url, title: content.title, subtopic, completed, total });
+    };
+
+    // Batches from every subtopic share one queue bounded by EVALUATION_CONCURRENCY;
+    // results keep subtopic and source order
+    const limit = createLimiter(getEvaluationConcurrency());
+    const results = await Promise.all(owned.map(async (searchResult, index) => {
+      const sources = selected[index];
+      const batches: SearchResult[][] = [];
+      for (let i = 0; i < sources.length; i += EVALUATION_BATCH_SIZE) {
+        batches.push(sources.slice(i, i + EVALUATION_BATCH_SIZE));
       }
-    }
 
-    return results;
+      const evaluated = await Promise.all(batches.map((batch, batchIndex) => limit(() =>
+        this.evaluateBatchOrEach(batch, batchIndex * EVALUATION_BATCH_SIZE, sources.length, searchResult.subtopic, onEvaluated)
+      )));
+      const contents = evaluated.flat();
+      return this.inaccessiblePolicy === 'exclude'
+        ? this.summarizeSubtopic(
+          searchResult.subtopic,
+          contents.filter(content => !content.accessIssue),
+          contents.filter(content => content.accessIssue)
+        )
+        : this.summarizeSubtopic(searchResult.subtopic, contents);
+    }));
+
+    return this.linkSharedSources(results, searchResults, subtopicsBySource);
   }
 
-  private async evaluateSubtopic(searchResult: SearchResults): Promise<EvaluationResult> {
-    // Apply source limits based on research mode
-    const maxSources = this.researchMode === 'max' ? 999 : 10; // 999 means use all available sources
-    const limitedResults = maxSources === 999 ? searchResult.results : searchResult.results.slice(0, maxSources);
-    const evaluatedContent: EvaluatedContent[] = [];
-
-    // Process sources in batches of 4 for efficiency
-    const batchSize = 4;
-    for (let i = 0; i < limitedResults.length; i += batchSize) {
-      const batch = limitedResults.slice(i, i + batchSize);
-
-      try {
-        const batchResults = await this.evaluateBatch(batch, searchResult.subtopic);
-        evaluatedContent.push(...batchResults);
-      } catch (error) {
-        console.error(`Failed to evaluate batch ${i + 1}-${Math.min(i + batchSize, allResults.length)}:`, error);
-        // Fallback: evaluate individually for this batch
-        for (const result of batch) {
-          try {
-            const content = await this.fetchAndEvaluateContent(result, searchResult.subtopic);
-            evaluatedContent.push(content);
-          } catch (individualError) {
-            console.error(`Failed to evaluate content from ${result.url}:`, individualError);
-            evaluatedContent.push(await this.createFallbackEvaluation(result, searchResult.subtopic));
-          }
+  // Adds each evaluated source to every other subtopic that also found it
+  private linkSharedSources(
+    results: EvaluationResult[],
+    searchResults: SearchResults[],
+    subtopicsBySource: Map<string, string[]>
+  ): EvaluationResult[] {
+    const contentBySource = new Map<string, EvaluatedContent>();
+    results.forEach(result => result.evaluatedContent.forEach(content => {
+      const key = canonicalizeUrl(content.url);
+      content.subtopics = subtopicsBySource.get(key) || [result.subtopic];
+      contentBySource.set(key, content);
+    }));
+
+    return results.map((result, index) => {
+      const evaluatedContent = [...result.evaluatedContent];
+      const linked = new Set(evaluatedContent);
+
+      searchResults[index].results.forEach(searchResult => {
+        const content = contentBySource.get(canonicalizeUrl(searchResult.url));
+        if (content && !linked.has(content)) {
+          linked.add(content);
+          evaluatedContent.push(content);
         }
-      }
-    }
+      });
 
+      return this.summarizeSubtopic(result.subtopic, evaluatedContent, result.excludedContent);
+    });
+  }
+
+  private summarizeSubtopic(
+    subtopic: string,
+    evaluatedContent: EvaluatedContent[],
+    excludedContent?: EvaluatedContent[]
+  ): EvaluationResult {
     const averageRelevance = evaluatedContent.length > 0
       ? evaluatedContent.reduce((sum, c) => sum + c.relevanceScore, 0) / evaluatedContent.length
       : 0;
@@ -92,11 +222,70 @@ export class EvaluatorAgent {
       : 0;
 
     return {
-      subtopic: searchResult.subtopic,
+      subtopic,
       evaluatedContent,
       totalSources: evaluatedContent.length,
       averageRelevance,
-      averageCredibility
+      averageCredibility,
+      ...(excludedContent?.length ? { excludedContent } : {})
+    };
+  }
+
+  // Evaluates a batch in one model call, falling back to one call per source.
+  // Titles and snippets are screened like page text, since pages control them too.
+  private async evaluateBatchOrEach(
+    batch: SearchResult[],
+    offset: number,
+    sourceCount: number,
+    subtopic: string,
+    onEvaluated: (content: EvaluatedContent, subtopic: string) => void
+  ): Promise<EvaluatedContent[]> {
+    const snippetDetections = new Map<string, InjectionDetection[]>();
+    const screened = batch.map(result => {
+      const title = sanitizeUntrustedText(result.title);
+      const snippet = sanitizeUntrustedText(result.snippet);
+      snippetDetections.set(result.url, [...title.detections, ...snippet.detections]);
+      return { ...result, title: title.text, snippet: snippet.text };
+    });
+    const finish = (content: EvaluatedContent) => {
+      const screenedContent = this.screenForInjection(content, snippetDetections.get(content.url) || []);
+      onEvaluated(screenedContent, subtopic);
+      return screenedContent;
+    };
+
+    try {
+      const batchResults = await this.evaluateBatch(screened, subtopic);
+      return batchResults.map(finish);
+    } catch (error) {
+      console.error(`Failed to evaluate batch ${offset + 1}-${Math.min(offset + batch.length, sourceCount)} of "${subtopic}":`, error);
+      const evaluatedContent: EvaluatedContent[] = [];
+      for (const result of screened) {
+        let content: EvaluatedContent;
+        try {
+          content = await this.fetchAndEvaluateContent(result, subtopic);
+        } catch (individualError) {
+          console.error(`Failed to evaluate content from ${result.url}:`, individualError);
+          content = await this.createFallbackEvaluation(result, subtopic);
+        }
+        evaluatedContent.push(finish(content));
+      }
+      return evaluatedContent;
+    }
+  }
+
+  // Records the instruction-like text removed from the source's page and
+  // snippet and lowers its credibility. Only fetched text counts; the model's
+  // own output is never screened.
+  private screenForInjection(content: EvaluatedContent, snippetDetections: InjectionDetection[]): EvaluatedContent {
+    const detections = [...snippetDetections, ...(content.injectionDetections || [])];
+    if (detections.length === 0) {
+      return content;
+    }
+
+    return {
+      ...content,
+      credibilityScore: Math.max(0, content.credibilityScore - getInjectionCredibilityPenalty()),
+      injectionDetections: detections
     };
   }
 
@@ -104,71 +293,86 @@ export class EvaluatorAgent {
     searchResults: SearchResult[],
     subtopic: string
   ): Promise<EvaluatedContent[]> {
-    const model = modelRouter.getModelForTask('reasoning');
-    const fallbackModels = modelRouter.getFallbackModels(model);
-
     // Prepare batch evaluation data
-    const sourcesData = await Promise.all(
+    const sourcesData: BatchSource[] = await Promise.all(
       searchResults.map(async (result) => {
-        let contentText = '';
         try {
-          const response = await axios.get(result.url, {
-            timeout: 5000, // Reduced timeout for batch processing
-            headers: {
-              'User-Agent': 'Mozilla/5.0 (compatible; AtlasResearcher/1.0)'
-            }
-          });
-          contentText = response.data
-            .replace(/<script[^>]*>[\s\S]*?<\/script>/gi, '')
-            .replace(/<style[^>]*>[\s\S]*?<\/style>/gi, '')
-            .replace(/<[^>]*>/g, ' ')
-            .replace(/\s+/g, ' ')
-            .trim()
-            .substring(0, 1000); // Shorter content for batch
+          // Reduced timeout and a third of the passage budget for batch processing
+          const fetched = await this.readSource(result.url, subtopic, 5000, Math.ceil(getPassageTokenBudget() / 3));
+          return { result, content: formatPassages(fetched.passages), fetched };
         } catch (error) {
           console.warn(`Failed to fetch content from ${result.url}, using snippet only`);
-          contentText = result.snippet;
+          return { result, content: result.snippet, accessIssue: this.accessIssueOf(error) };
         }
-
-        return {
-          url: result.url,
-          title: result.title,
-          content: contentText
-        };
       })
     );
 
+    // Sources that will be excluded are not worth a model call
+    const excluded = sourcesData.filter(source => source.accessIssue && this.inaccessiblePolicy === 'exclude');
+    const toEvaluate = sourcesData.filter(source => !excluded.includes(source));
+    const evaluations = toEvaluate.length > 0
+      ? await this.requestBatchEvaluation(toEvaluate, subtopic)
+      : new Map<number, SourceEvaluationOutput>();
+
+    return Promise.all(sourcesData.map(async source => {
+      const { result, content, fetched, accessIssue } = source;
+      if (excluded.includes(source)) {
+        return this.withAccessIssue(await this.createFallbackEvaluation(result, subtopic), accessIssue);
+      }
+
+      const evaluation = evaluations.get(toEvaluate.indexOf(source));
+      const evaluatedContent = evaluation
+        ? this.toEvaluatedContent(evaluation, result, result.snippet, fetched)
+        // Left out by the model; evaluate it alone from the content already read
+        : await this.evaluateWithModel(result, content, subtopic, fetched, accessIssue);
+      return this.withAccessIssue(evaluatedContent, accessIssue);
+    }));
+  }
+
+  // Evaluations keyed by the index of their source in `sources`
+  private async requestBatchEvaluation(
+    sources: BatchSource[],
+    subtopic: string
+  ): Promise<Map<number, SourceEvaluationOutput>> {
+    const model = modelRouter.getModelForTask('reasoning');
+    const fallbackModels = modelRouter.getFallbackModels(model);
+
     const prompt = `Evaluate these sources for research on: "${subtopic}"
 
-${sourcesData.map((source, index) =>
+${sources.map((source, index) =>
 `Source ${index + 1}:
-URL: ${source.url}
-Title: ${source.title}
-Content: ${source.content.substring(0, 800)}
+URL: ${source.result.url}${source.result.academic ? `\nRecord: ${this.describeAcademicRecord(source.result.academic)}` : ''}${source.fetched ? this.describeDocument(source.fetched.document) : ''}${this.describeAccessIssue(source.accessIssue)}
+${wrapUntrusted(`Title: ${source.result.title}\nContent: ${source.content}`)}
 `
 ).join('\n\n')}
 
-Return a JSON array with evaluations for each source:
-[
-  {
-    "summary": "2-3 sentence summary",
-    "keyPoints": ["point 1", "point 2"],
-    "citations": ["fact or quote"],
-    "relevanceScore": 8,
-    "credibilityScore": 7,
-    "url": "original_url"
-  }
-]
+Return a JSON object with one evaluation per source, numbered as above:
+{
+  "evaluations": [
+    {
+      "source": 1,
+      "summary": "2-3 sentence summary",
+      "keyPoints": ["point 1", "point 2"],
+      "citations": ["fact or quote (p. N when the content has [Page N] markers)"],
+      "relevanceScore": 8,
+      "credibilityScore": 7,
+      "sourceType": "news",
+      "stance": "neutral"
+    }
+  ]
+}
+
+${this.describeClassification(subtopic)}
 
 Be concise but thorough.`;
 
-    const response = await this.client.chatWithFallback(
+    const { value: output } = await evaluationRateLimiter.schedule('evaluation', () => this.client.chatStructured(
       {
         model,
         messages: [
           {
             role: 'system',
-            content: 'You are a research analyst. Evaluate multiple sources efficiently and return valid JSON arrays.'
+            content: `You are a research analyst. Evaluate multiple sources efficiently and return valid JSON. ${UNTRUSTED_CONTENT_NOTICE}`
           },
           {
             role: 'user',
@@ -178,38 +382,20 @@ Be concise but thorough.`;
         max_tokens: 1500,
         temperature: 0.3
       },
+      BATCH_EVALUATION_SCHEMA,
       fallbackModels
-    );
-
-    return this.parseBatchResponse(response.choices[0].message.content, searchResults);
-  }
-
-  private parseBatchResponse(content: string, originalResults: SearchResult[]): EvaluatedContent[] {
-    try {
-      const jsonMatch = content.match(/\[[\s\S]*\]/);
-      if (!jsonMatch) {
-        throw new Error('No JSON array found in response');
-      }
-
-      const parsed = JSON.parse(jsonMatch[0]);
-      if (!Array.isArray(parsed)) {
-        throw new Error('Response is not an array');
+    ));
+
+    // Evaluations are matched by source number, not position, so a skipped or
+    // reordered source cannot shift the others onto the wrong URL
+    const bySource = new Map<number, SourceEvaluationOutput>();
+    output.evaluations.forEach(evaluation => {
+      const index = Math.round(evaluation.source) - 1;
+      if (index >= 0 && index < sources.length && !bySource.has(index)) {
+        bySource.set(index, evaluation);
       }
-
-      return parsed.map((item, index) => ({
-        url: item.url || originalResults[index].url,
-        title: originalResults[index].title,
-        summary: item.summary || 'No summary available',
-        keyPoints: Array.isArray(item.keyPoints) ? item.keyPoints : [],
-        citations: Array.isArray(item.citations) ? item.citations : [],
-        relevanceScore: this.validateScore(item.relevanceScore),
-        credibilityScore: this.validateScore(item.credibilityScore),
-        contentText: originalResults[index].snippet
-      }));
-    } catch (error) {
-      console.error('Failed to parse batch evaluation response:', error);
-      throw error;
-    }
+    });
+    return bySource;
   }
 
   private async fetchAndEvaluateContent(
@@ -217,66 +403,103 @@ Be concise but thorough.`;
     subtopic: string
   ): Promise<EvaluatedContent> {
     let contentText = '';
+    let fetched: FetchedSource | undefined;
+    let accessIssue: AccessIssue | undefined;
 
     try {
-      // Try to fetch the actual content (in a real app, you'd want to use a more robust web scraper)
-      const response = await axios.get(searchResult.url, {
-        timeout: 10000,
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (compatible; AtlasResearcher/1.0)'
-        }
-      });
-
-      // Simple text extraction (in production, use a proper HTML parser)
-      contentText = response.data
-        .replace(/<script[^>]*>[\s\S]*?<\/script>/gi, '')
-        .replace(/<style[^>]*>[\s\S]*?<\/style>/gi, '')
-        .replace(/<[^>]*>/g, ' ')
-        .replace(/\s+/g, ' ')
-        .trim()
-        .substring(0, 5000); // Limit content length
+      fetched = await this.readSource(searchResult.url, subtopic, 10000, getPassageTokenBudget());
+      contentText = formatPassages(fetched.passages);
     } catch (error) {
       console.warn(`Failed to fetch content from ${searchResult.url}, using snippet only`);
       contentText = searchResult.snippet;
+      accessIssue = this.accessIssueOf(error);
     }
 
-    return await this.evaluateWithModel(searchResult, contentText, subtopic);
+    if (accessIssue && this.inaccessiblePolicy === 'exclude') {
+      return this.withAccessIssue(await this.createFallbackEvaluation(searchResult, subtopic), accessIssue);
+    }
+    return this.withAccessIssue(await this.evaluateWithModel(searchResult, contentText, subtopic, fetched, accessIssue), accessIssue);
+  }
+
+  private describeClassification(subtopic: string): string {
+    return `sourceType is one of: primary-research (original studies and data), review (surveys of research), government, ` +
+      `news, opinion (editorials, columns, blogs), vendor (marketing or product pages of a company selling something), ` +
+      `reference (encyclopedias, documentation), other.
+stance is the source's position on "${this.researchQuestion || subtopic}": supports, opposes, mixed or neutral (no position).`;
+  }
+
+  private accessIssueOf(error: unknown): AccessIssue | undefined {
+    return error instanceof SourceInaccessibleError ? error.issue : undefined;
+  }
+
+  private withAccessIssue(content: EvaluatedContent, accessIssue?: AccessIssue): EvaluatedContent {
+    return accessIssue ? { ...content, accessIssue } : content;
+  }
+
+  private describeAccessIssue(accessIssue?: AccessIssue): string {
+    return accessIssue ? `\nAccess: page is a ${accessIssue.kind}; only the search snippet is available` : '';
+  }
+
+  // Reads a source according to its format (article body and metadata for
+  // HTML, page-marked text for PDFs, readable lines for JSON and CSV) and picks
+  // the passages that best match the subtopic within the token budget. Paywall,
+  // login, captcha and not-found pages throw SourceInaccessibleError.
+  private async readSource(url: string, subtopic: string, timeout: number, budgetTokens: number): Promise<FetchedSource> {
+    const fetched = await fetchDocument(url, { timeout, cacheStats: this.cacheStats });
+    const document = ingestDocument(fetched);
+    const accessIssue = detectAccessIssue(fetched, document);
+    if (accessIssue) {
+      throw new SourceInaccessibleError(url, accessIssue);
+    }
+    const { text, detections } = sanitizeUntrustedText(document.text);
+    const embeddingModel = getEmbeddingModel();
+
+    const passages = await selectPassages(text, subtopic, {
+      budgetTokens,
+      embed: embeddingModel ? texts => this.client.embed(embeddingModel, texts) : undefined
+    });
+    return { document: { ...document, text }, passages, injectionDetections: detections };
   }
 
   private async evaluateWithModel(
     searchResult: SearchResult,
     contentText: string,
-    subtopic: string
+    subtopic: string,
+    fetched?: FetchedSource,
+    accessIssue?: AccessIssue
   ): Promise<EvaluatedContent> {
     const model = modelRouter.getModelForTask('reasoning');
     const fallbackModels = modelRouter.getFallbackModels(model);
 
     const prompt = `Analyze this content for research on: "${subtopic}"
 
-URL: ${searchResult.url}
-Title: ${searchResult.title}
-Content: ${contentText.substring(0, 2000)}
+URL: ${searchResult.url}${searchResult.academic ? `\nRecord: ${this.describeAcademicRecord(searchResult.academic)}` : ''}${fetched ? this.describeDocument(fetched.document) : ''}${this.describeAccessIssue(accessIssue)}
+${wrapUntrusted(`Title: ${searchResult.title}\nContent: ${contentText}`)}
 
 Provide a JSON response with:
 {
   "summary": "2-3 sentence summary of key information",
   "keyPoints": ["point 1", "point 2", "point 3"],
-  "citations": ["specific facts or quotes with attribution"],
+  "citations": ["specific facts or quotes with attribution, ending with (p. N) when the content has [Page N] markers"],
   "relevanceScore": 0-10 (how relevant to the subtopic),
   "credibilityScore": 0-10 (based on source quality and information accuracy),
+  "sourceType": "primary-research",
+  "stance": "supports",
   "reasoning": "brief explanation of scores"
 }
 
+${this.describeClassification(subtopic)}
+
 Focus on extracting actionable insights and verifiable facts.`;
 
     try {
-      const response = await this.client.chatWithFallback(
+      const { value: output } = await evaluationRateLimiter.schedule('evaluation', () => this.client.chatStructured(
         {
           model,
           messages: [
             {
               role: 'system',
-              content: 'You are a research analyst specializing in content evaluation and fact extraction. Provide objective, accurate assessments.'
+              content: `You are a research analyst specializing in content evaluation and fact extraction. Provide objective, accurate assessments. ${UNTRUSTED_CONTENT_NOTICE}`
             },
             {
               role: 'user',
@@ -286,47 +509,44 @@ Focus on extracting actionable insights and verifiable facts.`;
           max_tokens: 1000,
           temperature: 0.3
         },
+        SOURCE_EVALUATION_SCHEMA,
         fallbackModels
-      );
+      ));
 
-      return this.parseEvaluationResponse(
-        response.choices[0].message.content,
-        searchResult,
-        contentText
-      );
+      // Store a truncated version of the content
+      return this.toEvaluatedContent(output, searchResult, contentText.substring(0, 1000), fetched, contentText);
     } catch (error) {
       console.error('Model evaluation error:', error);
       return this.createFallbackEvaluation(searchResult, subtopic);
     }
   }
 
-  private parseEvaluationResponse(
-    content: string,
+  private toEvaluatedContent(
+    output: SourceEvaluationOutput,
     searchResult: SearchResult,
-    contentText: string
+    contentText: string,
+    fetched?: FetchedSource,
+    sourceText: string = searchResult.snippet
   ): EvaluatedContent {
-    try {
-      const jsonMatch = content.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) {
-        throw new Error('No JSON found in response');
-      }
-
-      const parsed = JSON.parse(jsonMatch[0]);
-
-      return {
-        url: searchResult.url,
-        title: searchResult.title,
-        summary: parsed.summary || 'No summary available',
-        keyPoints: Array.isArray(parsed.keyPoints) ? parsed.keyPoints : [],
-        citations: Array.isArray(parsed.citations) ? parsed.citations : [],
-        relevanceScore: this.validateScore(parsed.relevanceScore),
-        credibilityScore: this.validateScore(parsed.credibilityScore),
-        contentText: contentText.substring(0, 1000) // Store truncated version
-      };
-    } catch (error) {
-      console.error('Failed to parse evaluation response:', error);
-      return this.createFallbackEvaluation(searchResult, '');
-    }
+    return {
+      url: searchResult.url,
+      title: searchResult.title,
+      summary: output.summary || 'No summary available',
+      keyPoints: output.keyPoints,
+      citations: output.citations,
+      citationChecks: verifyCitations(output.citations, fetched?.document.text || sourceText),
+      relevanceScore: this.validateScore(output.relevanceScore),
+      ...this.scoreCredibility(this.validateScore(output.credibilityScore), searchResult),
+      sourceType: classifySourceType(output.sourceType, searchResult.url, searchResult.academic),
+      stance: output.stance,
+      contentText,
+      academic: searchResult.academic,
+      page: fetched?.document.metadata,
+      ...resolveSourceDates(searchResult.publishedDate, fetched?.document.metadata, searchResult.academic),
+      format: fetched?.document.format,
+      passages: fetched?.passages,
+      injectionDetections: fetched?.injectionDetections.length ? fetched.injectionDetections : undefined
+    };
   }
 
   private async createFallbackEvaluation(
@@ -334,18 +554,23 @@ Focus on extracting actionable insights and verifiable facts.`;
     subtopic: string
   ): Promise<EvaluatedContent> {
     // Create a basic evaluation from just the search result
-    const domainCredibility = this.assessDomainCredibility(searchResult.url);
     const relevanceScore = subtopic ? this.assessRelevanceByKeywords(searchResult.snippet, subtopic) : 5;
 
+    const citations = [`From ${searchResult.title}: "${searchResult.snippet}"`];
+
     return {
       url: searchResult.url,
       title: searchResult.title,
       summary: searchResult.snippet,
       keyPoints: [searchResult.snippet],
-      citations: [`From ${searchResult.title}: "${searchResult.snippet}"`],
+      citations,
+      citationChecks: verifyCitations(citations, searchResult.snippet),
       relevanceScore,
-      credibilityScore: domainCredibility,
-      contentText: searchResult.snippet
+      ...this.scoreCredibility(undefined, searchResult),
+      sourceType: classifySourceType(undefined, searchResult.url, searchResult.academic),
+      contentText: searchResult.snippet,
+      academic: searchResult.academic,
+      ...resolveSourceDates(searchResult.publishedDate, undefined, searchResult.academic)
     };
   }
 
@@ -355,34 +580,44 @@ Focus on extracting actionable insights and verifiable facts.`;
     return Math.max(0, Math.min(10, numScore));
   }
 
-  private assessDomainCredibility(url: string): number {
-    try {
-      const domain = new URL(url).hostname.toLowerCase();
-
-      // High credibility domains
-      const highCredibility = [
-        'nature.com', 'science.org', 'cell.com', 'nejm.org',
-        'ieee.org', 'acm.org', 'arxiv.org', 'pubmed.ncbi.nlm.nih.gov',
-        'who.int', 'cdc.gov', 'nih.gov', 'gov.uk', 'europa.eu',
-        'reuters.com', 'ap.org', 'bbc.com', 'npr.org'
-      ];
-
-      // Medium credibility domains
-      const mediumCredibility = [
-        'wikipedia.org', 'britannica.com', 'economist.com',
-        'wsj.com', 'ft.com', 'bloomberg.com', 'harvard.edu',
-        'mit.edu', 'stanford.edu', 'ox.ac.uk', 'cam.ac.uk'
-      ];
-
-      if (highCredibility.some(d => domain.includes(d))) return 9;
-      if (mediumCredibility.some(d => domain.includes(d))) return 7;
-      if (domain.includes('.edu') || domain.includes('.gov') || domain.includes('.org')) return 6;
-      if (domain.includes('.com')) return 5;
-
-      return 4; // Default for unknown domains
-    } catch (error) {
-      return 4;
+  private describeDocument(document: IngestedDocument): string {
+    const page = document.metadata || {};
+    const details = [
+      document.pageCount ? `${document.format.toUpperCase()}, ${document.pageCount} page${document.pageCount === 1 ? '' : 's'}` : '',
+      page.author ? `by ${page.author}` : '',
+      page.publishedDate ? `published ${page.publishedDate}` : '',
+      page.siteName ? `on ${page.siteName}` : ''
+    ].filter(Boolean).join(', ');
+    return details ? `\nDocument: ${details}` : '';
+  }
+
+  private describeAcademicRecord(academic?: AcademicMetadata): string {
+    if (!academic) return '';
+
+    return [
+      academic.peerReviewed ? 'Peer-reviewed' : 'Preprint / not peer-reviewed',
+      academic.venue,
+      academic.year,
+      academic.doi ? `DOI ${academic.doi}` : undefined
+    ].filter(Boolean).join(', ');
+  }
+
+  // Final credibility score and the rule behind it. Profile overrides replace
+  // the model's score and peer-reviewed records keep at least theirs; otherwise
+  // the model's score stands and the profile only scores sources it never saw.
+  private scoreCredibility(
+    modelScore: number | undefined,
+    searchResult: SearchResult
+  ): Pick<EvaluatedContent, 'credibilityScore' | 'credibilityBasis'> {
+    const assessment = assessCredibility(this.credibilityProfile, searchResult.url, searchResult.academic);
+
+    if (modelScore === undefined || assessment.kind === 'override') {
+      return { credibilityScore: assessment.score, credibilityBasis: { ...assessment, scoredBy: 'profile' } };
+    }
+    if (assessment.kind === 'peer-reviewed' && assessment.score > modelScore) {
+      return { credibilityScore: assessment.score, credibilityBasis: { ...assessment, scoredBy: 'profile' } };
     }
+    return { credibilityScore: modelScore, credibilityBasis: { ...assessment, scoredBy: 'model' } };
   }
 
   private assessRelevanceByKeywords(text: string, subtopic: string): number {
@@ -400,16 +635,31 @@ Focus on extracting actionable insights and verifiable facts.`;
     return Math.min(10, Math.max(1, Math.round(relevanceRatio * 10)));
   }
 
+  // Page cache hits and misses for this agent's fetches
+  getCacheStats(): CacheStats {
+    return { ...this.cacheStats };
+  }
+
+  // For time-sensitive subtopics, dated sources must also reach minFreshness;
+  // undated sources are kept since their age is unknown
   async filterHighQualityContent(
     evaluationResults: EvaluationResult[],
     minRelevance: number = 5,
-    minCredibility: number = 4
+    minCredibility: number = 4,
+    minFreshness: number = 0,
+    timeSensitiveSubtopics: string[] = []
   ): Promise<EvaluationResult[]> {
-    return evaluationResults.map(result => ({
-      ...result,
-      evaluatedContent: result.evaluatedContent.filter(
-        content => content.relevanceScore >= minRelevance && content.credibilityScore >= minCredibility
-      )
-    })).filter(result => result.evaluatedContent.length > 0);
+    return evaluationResults.map(result => {
+      const checkFreshness = minFreshness > 0 && timeSensitiveSubtopics.includes(result.subtopic);
+
+      return {
+        ...result,
+        evaluatedContent: result.evaluatedContent.filter(content =>
+          content.relevanceScore >= minRelevance &&
+          content.credibilityScore >= minCredibility &&
+          (!checkFreshness || content.freshnessScore === undefined || content.freshnessScore >= minFreshness)
+        )
+      };
+    }).filter(result => result.evaluatedContent.length > 0);
   }
 }
\ No newline at end of file
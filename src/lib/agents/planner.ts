@@ -1,8 +1,13 @@
 import { OpenRouterClient } from '../openrouter';
 import { modelRouter } from '../models';
+import { describeSearchFilters } from '../search/filters';
+import { SearchFilters } from '../search/types';
+import { PLANNER_SCHEMA, PlannerOutput } from './schemas';
 
 export interface PlanningResult {
   subtopics: string[];
+  // Subtopics whose answer depends on recent information (prices, current events, latest releases)
+  timeSensitiveSubtopics?: string[];
   originalQuery: string;
   estimatedComplexity: 'low' | 'medium' | 'high';
 }
@@ -14,14 +19,14 @@ export class PlannerAgent {
     this.client = client;
   }
 
-  async planResearch(query: string): Promise<PlanningResult> {
+  async planResearch(query: string, filters?: SearchFilters): Promise<PlanningResult> {
     const model = modelRouter.getModelForTask('planning');
     const fallbackModels = modelRouter.getFallbackModels(model);
 
-    const prompt = this.createPlanningPrompt(query);
+    const prompt = this.createPlanningPrompt(query, filters);
 
     try {
-      const response = await this.client.chatWithFallback(
+      const { value: output } = await this.client.chatStructured(
         {
           model,
           messages: [
@@ -37,10 +42,11 @@ export class PlannerAgent {
           max_tokens: 1000,
           temperature: 0.3
         },
+        PLANNER_SCHEMA,
         fallbackModels
       );
 
-      return this.parseResponse(response.choices[0].message.content, query);
+      return this.toPlanningResult(output, query);
     } catch (error) {
       console.error('Planner agent error:', error);
       // Fallback to a simple topic breakdown
@@ -48,7 +54,14 @@ export class PlannerAgent {
     }
   }
 
-  private createPlanningPrompt(query: string): string {
+  private createPlanningPrompt(query: string, filters?: SearchFilters): string {
+    const constraints = describeSearchFilters(filters);
+    const constraintBlock = constraints
+      ? `\nSearch constraints set by the user: ${constraints}.
+Choose subtopics that can be answered within these constraints.
+`
+      : '';
+
     return `Break down this research question into 5-7 specific subtopics that should be investigated to provide a comprehensive answer.
 
 Research Question: "${query}"
@@ -59,10 +72,15 @@ Requirements:
 3. They should be researchable using web search
 4. Avoid overlap between subtopics
 5. Include both current state and future trends where relevant
+${constraintBlock}
+Also decide which subtopics are time-sensitive: their answer depends on recent information
+(current prices, ongoing events, latest releases or statistics). Historical, conceptual and
+background subtopics are NOT time-sensitive.
 
 Format your response as a JSON object with this structure:
 {
   "subtopics": ["subtopic 1", "subtopic 2", ...],
+  "timeSensitiveSubtopics": ["exact text of each time-sensitive subtopic from the list above"],
   "complexity": "low|medium|high",
   "reasoning": "brief explanation of your approach"
 }
@@ -70,34 +88,16 @@ Format your response as a JSON object with this structure:
 Focus only on the subtopics that will lead to the most informative and comprehensive research.`;
   }
 
-  private parseResponse(content: string, originalQuery: string): PlanningResult {
-    try {
-      // Try to extract JSON from the response
-      const jsonMatch = content.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) {
-        throw new Error('No JSON found in response');
-      }
-
-      const parsed = JSON.parse(jsonMatch[0]);
-
-      if (!parsed.subtopics || !Array.isArray(parsed.subtopics)) {
-        throw new Error('Invalid subtopics format');
-      }
-
-      return {
-        subtopics: parsed.subtopics.slice(0, 7), // Ensure max 7 subtopics
-        originalQuery,
-        estimatedComplexity: this.validateComplexity(parsed.complexity) || 'medium'
-      };
-    } catch (error) {
-      console.error('Failed to parse planner response:', error);
-      return this.createFallbackPlan(originalQuery);
-    }
-  }
+  private toPlanningResult(output: PlannerOutput, originalQuery: string): PlanningResult {
+    const subtopics = output.subtopics.slice(0, 7); // Ensure max 7 subtopics
+    const timeSensitiveSubtopics = subtopics.filter(subtopic => output.timeSensitiveSubtopics?.includes(subtopic));
 
-  private validateComplexity(complexity: string): 'low' | 'medium' | 'high' | null {
-    const validValues = ['low', 'medium', 'high'];
-    return validValues.includes(complexity) ? complexity as 'low' | 'medium' | 'high' : null;
+    return {
+      subtopics,
+      timeSensitiveSubtopics,
+      originalQuery,
+      estimatedComplexity: output.complexity || 'medium'
+    };
   }
 
   private createFallbackPlan(query: string): PlanningResult {
@@ -116,6 +116,7 @@ Focus only on the subtopics that will lead to the most informative and comprehen
 
     return {
       subtopics,
+      timeSensitiveSubtopics: subtopics.filter(subtopic => /current|recent|future/i.test(subtopic)),
       originalQuery: query,
       estimatedComplexity: 'medium'
     };
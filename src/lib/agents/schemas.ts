@@ -0,0 +1,140 @@
+import { SOURCE_STANCES, SOURCE_TYPES, SourceStance, SourceType } from '../evidence';
+import { jsonOutput, markdownOutput, OutputSchema, SchemaNode } from '../structured-output';
+
+// Output shapes the agents ask the models for. Scores are 0-10; source
+// numbers refer to the numbered sources in the prompt.
+
+export interface PlannerOutput {
+  subtopics: string[];
+  timeSensitiveSubtopics?: string[];
+  complexity?: 'low' | 'medium' | 'high';
+  reasoning?: string;
+}
+
+export interface QueryExpansionOutput {
+  queries: string[];
+}
+
+export interface SourceEvaluationOutput {
+  summary: string;
+  keyPoints: string[];
+  citations: string[];
+  relevanceScore: number;
+  credibilityScore: number;
+  sourceType?: SourceType;
+  stance?: SourceStance;
+  reasoning?: string;
+}
+
+export interface BatchEvaluationOutput {
+  evaluations: Array<SourceEvaluationOutput & { source: number }>;
+}
+
+export interface ConsensusOutput {
+  consensus: Array<{ topic: string; claim: string; sources: number[] }>;
+  disputed: Array<{
+    topic: string;
+    positions: Array<{ claim: string; sources: number[] }>;
+    explanation?: string;
+  }>;
+}
+
+const score: SchemaNode = { type: 'number', min: 0, max: 10 };
+const strings: SchemaNode = { type: 'array', items: { type: 'string' } };
+const sourceNumbers: SchemaNode = { type: 'array', items: { type: 'number', min: 1 } };
+
+const evaluationProperties: Record<string, SchemaNode> = {
+  summary: { type: 'string' },
+  keyPoints: strings,
+  citations: strings,
+  relevanceScore: score,
+  credibilityScore: score,
+  sourceType: { type: 'string', enum: SOURCE_TYPES, optional: true },
+  stance: { type: 'string', enum: SOURCE_STANCES, optional: true },
+  reasoning: { type: 'string', optional: true }
+};
+
+export const PLANNER_SCHEMA: OutputSchema<PlannerOutput> = jsonOutput('planner', {
+  type: 'object',
+  properties: {
+    subtopics: { type: 'array', items: { type: 'string' }, minItems: 1 },
+    timeSensitiveSubtopics: { ...strings, optional: true },
+    complexity: { type: 'string', enum: ['low', 'medium', 'high'], optional: true },
+    reasoning: { type: 'string', optional: true }
+  }
+});
+
+export const QUERY_EXPANSION_SCHEMA: OutputSchema<QueryExpansionOutput> = jsonOutput('query expansion', {
+  type: 'object',
+  properties: {
+    queries: { type: 'array', items: { type: 'string' }, minItems: 1 }
+  }
+});
+
+export const SOURCE_EVALUATION_SCHEMA: OutputSchema<SourceEvaluationOutput> = jsonOutput('source evaluation', {
+  type: 'object',
+  properties: evaluationProperties
+});
+
+export const BATCH_EVALUATION_SCHEMA: OutputSchema<BatchEvaluationOutput> = jsonOutput('batch evaluation', {
+  type: 'object',
+  properties: {
+    evaluations: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        properties: { source: { type: 'number', min: 1 }, ...evaluationProperties }
+      }
+    }
+  }
+});
+
+export const CONSENSUS_SCHEMA: OutputSchema<ConsensusOutput> = jsonOutput('consensus', {
+  type: 'object',
+  properties: {
+    consensus: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { topic: { type: 'string' }, claim: { type: 'string' }, sources: sourceNumbers }
+      }
+    },
+    disputed: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          topic: { type: 'string' },
+          positions: {
+            type: 'array',
+            items: { type: 'object', properties: { claim: { type: 'string' }, sources: sourceNumbers } }
+          },
+          explanation: { type: 'string', optional: true }
+        }
+      }
+    }
+  }
+});
+
+// The synthesized markdown report: structured into sections, and citing only
+// sources that exist
+export function createReportSchema(sourceCount: number): OutputSchema<string> {
+  return markdownOutput('report', content => {
+    const errors: string[] = [];
+    const sections = content.split('\n').filter(line => /^##\s+\S/.test(line.trim()));
+    if (sections.length < 3) {
+      errors.push(`expected at least 3 "##" sections, found ${sections.length}`);
+    }
+
+    const cited = [...content.matchAll(/\[(\d+)(?:,\s*pp?\.\s*[\d–-]+)?\]/g)].map(match => parseInt(match[1], 10));
+    if (sourceCount > 0 && cited.length === 0) {
+      errors.push('no in-text citations such as [1]');
+    }
+    const unknown = [...new Set(cited.filter(number => number < 1 || number > sourceCount))];
+    if (unknown.length > 0) {
+      errors.push(`citations ${unknown.map(number => `[${number}]`).join(', ')} do not match any source (there are ${sourceCount})`);
+    }
+    return errors;
+  });
+}
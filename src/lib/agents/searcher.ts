@@ -1,81 +1,312 @@
-import axios from 'axios';
-import { OpenRouterClient } from '../openrouter';
+import { CacheStats, createCacheStats, TtlCache } from '../cache';
+import { CircuitOpenError, circuitBreakers } from '../circuit-breaker';
+import { createLimiter, RateLimiter } from '../concurrency';
+import {
+  getQueryExpansionCount,
+  getSearchCacheTtlMs,
+  getSearchConcurrency,
+  getSearchRateLimits
+} from '../config';
 import { modelRouter } from '../models';
+import { OpenRouterClient } from '../openrouter';
+import { applySearchFilters } from '../search/filters';
+import { searchProviderRegistry, SearchProviderRegistry } from '../search/registry';
+import { SearchFilters, SearchMode, SearchProvider, SearchResult } from '../search/types';
+import { QUERY_EXPANSION_SCHEMA } from './schemas';
 
-export interface SearchResult {
-  url: string;
-  title: string;
-  snippet: string;
-  source: 'tavily' | 'perplexity';
-}
+export type { SearchMode, SearchResult } from '../search/types';
 
 export interface SearchResults {
   subtopic: string;
   results: SearchResult[];
   searchQuery: string;
+  expandedQueries?: string[];
+}
+
+export interface SubtopicSearchProgress {
+  subtopic: string;
+  completed: number;
+  total: number;
+  resultCount: number;
+  failed: boolean;
+}
+
+// Shared across requests so provider rate limits hold for the whole server
+const providerRateLimiter = new RateLimiter(getSearchRateLimits());
+
+const searchCache = new TtlCache<SearchResult[]>('search', getSearchCacheTtlMs());
+
+const SEARCH_ENGINE_DESCRIPTIONS: Record<SearchMode, string> = {
+  web: 'general web search',
+  academic: 'scholarly literature index',
+  local: 'keyword search over internal documents'
+};
+
+// Interleaves result lists so no single list dominates, dropping duplicates
+function mergeResultLists(lists: SearchResult[][]): SearchResult[] {
+  const seen = new Set<string>();
+  const merged: SearchResult[] = [];
+  const longest = Math.max(0, ...lists.map(results => results.length));
+
+  for (let i = 0; i < longest; i++) {
+    for (const results of lists) {
+      const result = results[i];
+      if (!result) continue;
+
+      const key = (result.academic?.doi || result.url).toLowerCase();
+      if (!seen.has(key)) {
+        seen.add(key);
+        merged.push(result);
+      }
+    }
+  }
+
+  return merged;
+}
+
+export interface SearcherOptions {
+  searchMode?: SearchMode;
+  // Also search the local document corpus alongside the web or academic providers
+  includeLocalCorpus?: boolean;
+  // Ask the planning model for extra query phrasings per subtopic
+  expandQueries?: boolean;
+  // Domain, date and locale constraints passed to every provider
+  filters?: SearchFilters;
+}
+
+export interface SearchAllOptions {
+  // Subtopics the planner flagged as needing recent sources
+  timeSensitiveSubtopics?: string[];
+  onProgress?: (progress: SubtopicSearchProgress) => void;
 }
 
 export class SearcherAgent {
   private client: OpenRouterClient;
-
-  constructor(client: OpenRouterClient) {
+  private searchMode: SearchMode;
+  private includeLocalCorpus: boolean;
+  private expandQueries: boolean;
+  private filters: SearchFilters;
+  private registry: SearchProviderRegistry;
+  private cacheStats: CacheStats = createCacheStats();
+
+  constructor(
+    client: OpenRouterClient,
+    options: SearcherOptions = {},
+    registry: SearchProviderRegistry = searchProviderRegistry
+  ) {
     this.client = client;
+    this.searchMode = options.searchMode || 'web';
+    this.includeLocalCorpus = Boolean(options.includeLocalCorpus);
+    this.expandQueries = Boolean(options.expandQueries);
+    this.filters = options.filters || {};
+    this.registry = registry;
   }
 
-  async searchSubtopic(subtopic: string, originalQuery?: string): Promise<SearchResults> {
-    const searchQuery = this.generateSearchQuery(subtopic, originalQuery);
+  async searchSubtopic(subtopic: string, originalQuery?: string, timeSensitive: boolean = false): Promise<SearchResults> {
+    const searchQuery = this.generateSearchQuery(subtopic, originalQuery, timeSensitive);
+    const expandedQueries = this.expandQueries
+      ? await this.generateExpandedQueries(subtopic, originalQuery, timeSensitive)
+      : [];
 
-    try {
-      // Try Tavily search first (real web search)
-      const results = await this.tavilySearch(searchQuery);
-      if (results.length > 0) {
-        return {
-          subtopic,
-          results: results.slice(0, 5), // Top 5 results
-          searchQuery
-        };
+    let localResults: SearchResult[] = [];
+    if (this.includeLocalCorpus && this.searchMode !== 'local') {
+      try {
+        localResults = await this.searchLocalSources(subtopic);
+      } catch (error) {
+        console.warn('Local corpus search failed:', error);
       }
-    } catch (error) {
-      console.warn('Tavily search failed, trying backup API:', error);
     }
 
-    try {
-      // Try backup Tavily API key
-      const results = await this.tavilySearchBackup(searchQuery);
-      if (results.length > 0) {
-        return {
-          subtopic,
-          results: results.slice(0, 5),
-          searchQuery
-        };
+    // Run the base query and every expansion; a failing expansion only loses its own results
+    const settled = await Promise.allSettled([
+      this.searchByMode(subtopic, searchQuery),
+      ...expandedQueries.map(query => this.searchByMode(query, query))
+    ]);
+
+    const resultLists: SearchResult[][] = [];
+    let lastError: unknown;
+    settled.forEach(outcome => {
+      if (outcome.status === 'fulfilled') {
+        resultLists.push(outcome.value);
+      } else {
+        lastError = outcome.reason;
       }
-    } catch (error) {
-      console.warn('Backup Tavily API failed, trying Perplexity:', error);
+    });
+
+    if (resultLists.length === 0) {
+      if (localResults.length === 0) {
+        throw lastError;
+      }
+      console.warn('Remote search failed, continuing with local documents only:', lastError);
     }
 
+    return {
+      subtopic,
+      results: mergeResultLists([localResults, ...resultLists]),
+      searchQuery,
+      expandedQueries: expandedQueries.length > 0 ? expandedQueries : undefined
+    };
+  }
+
+  private async generateExpandedQueries(
+    subtopic: string,
+    originalQuery: string | undefined,
+    timeSensitive: boolean
+  ): Promise<string[]> {
+    const model = modelRouter.getModelForTask('planning');
+    const fallbackModels = modelRouter.getFallbackModels(model);
+    const count = getQueryExpansionCount();
+
+    const prompt = `Write ${count} diverse search queries for researching this subtopic.
+
+Subtopic: "${subtopic}"${originalQuery ? `\nOverall research question: "${originalQuery}"` : ''}
+Search engine type: ${SEARCH_ENGINE_DESCRIPTIONS[this.searchMode]}
+
+Cover different angles:
+1. Synonyms and alternative terminology for the key concepts
+2. Opposing viewpoints, criticism or counter-evidence
+3. Primary sources: official data, original studies, reports or filings
+${timeSensitive
+  ? 'This subtopic is time-sensitive, so favour phrasings that surface recent developments.'
+  : 'This subtopic is not time-sensitive. Do not add years or words like "latest" or "recent".'}
+
+Keep each query under 12 words. Return JSON only:
+{
+  "queries": ["query 1", "query 2"]
+}`;
+
     try {
-      // Try Perplexity as fallback
-      const results = await this.perplexitySearch(searchQuery);
-      if (results.length > 0) {
-        return {
-          subtopic,
-          results: results.slice(0, 5),
-          searchQuery
-        };
-      }
+      const { value: output } = await this.client.chatStructured(
+        {
+          model,
+          messages: [
+            {
+              role: 'system',
+              content: 'You are a search strategist. You write precise, varied search queries that together give balanced coverage of a topic.'
+            },
+            {
+              role: 'user',
+              content: prompt
+            }
+          ],
+          max_tokens: 500,
+          temperature: 0.5
+        },
+        QUERY_EXPANSION_SCHEMA,
+        fallbackModels
+      );
+
+      return output.queries
+        .map(query => query.trim())
+        .filter(query => query.length > 0)
+        .slice(0, count);
     } catch (error) {
-      console.warn('Perplexity search failed:', error);
+      console.warn(`Query expansion failed for subtopic: ${subtopic}`, error);
+      return [];
     }
+  }
 
-    // FAKE SEARCH DISABLED - Would rather break than return fake results
-    // throw new Error(`All search APIs failed for query: ${searchQuery}`);
+  private async searchByMode(subtopic: string, searchQuery: string): Promise<SearchResult[]> {
+    if (this.searchMode === 'academic') {
+      return this.searchAcademicSources(searchQuery);
+    }
+
+    if (this.searchMode === 'local') {
+      return this.searchLocalSources(subtopic);
+    }
+
+    // Try each enabled provider in configured order until one returns results
+    for (const provider of this.registry.getActiveProviders()) {
+      try {
+        const results = await this.runProvider(provider, searchQuery, 5);
+        if (results.length > 0) {
+          return results.slice(0, 5); // Top 5 results
+        }
+      } catch (error) {
+        if (error instanceof CircuitOpenError) {
+          console.warn(`Skipping search provider ${provider.id}: ${error.message}`);
+        } else {
+          console.warn(`Search provider ${provider.id} failed, trying next provider:`, error);
+        }
+      }
+    }
 
     // FAKE SEARCH DISABLED - Rather break than return fake results
     // For now, throw an error so we know real search isn't working
     throw new Error(`All search APIs failed for query: ${searchQuery}. Real search is needed - fake search disabled.`);
   }
 
-  private generateSearchQuery(subtopic: string, originalQuery?: string): string {
+  private async runProvider(provider: SearchProvider, query: string, maxResults: number): Promise<SearchResult[]> {
+    const filters = this.filters;
+    // Cache hits are served even while a provider's circuit is open
+    const search = () => providerRateLimiter.schedule(provider.id, () =>
+      circuitBreakers.run(`search:${provider.id}`, () => provider.search(query, { maxResults, filters }))
+    );
+
+    // The local index is already in memory, so only remote providers are cached
+    if (provider.category === 'local') {
+      return applySearchFilters(await search(), filters, provider.capabilities);
+    }
+
+    const normalizedQuery = query.toLowerCase().replace(/\s+/g, ' ').trim();
+    const results = await searchCache.getOrLoad(
+      `${provider.id}:${maxResults}:${JSON.stringify(filters)}:${normalizedQuery}`,
+      search,
+      this.cacheStats,
+      results => results.length > 0
+    );
+
+    // Providers without native support for a filter are filtered here instead
+    return applySearchFilters(results, filters, provider.capabilities);
+  }
+
+  // BM25 does its own term weighting, so the corpus gets the plain subtopic
+  private async searchLocalSources(subtopic: string): Promise<SearchResult[]> {
+    const providers = this.registry.getActiveProviders('local');
+    if (providers.length === 0) {
+      throw new Error('No local corpus configured (set LOCAL_CORPUS_DIR)');
+    }
+
+    const results: SearchResult[] = [];
+    for (const provider of providers) {
+      results.push(...await this.runProvider(provider, subtopic, 5));
+    }
+
+    if (results.length === 0) {
+      throw new Error(`No local documents matched: ${subtopic}`);
+    }
+
+    return results;
+  }
+
+  private async searchAcademicSources(searchQuery: string): Promise<SearchResult[]> {
+    const providers = this.registry.getActiveProviders('academic');
+
+    // Scholarly indexes cover different fields, so query them all and merge
+    const settled = await Promise.allSettled(
+      providers.map(provider => this.runProvider(provider, searchQuery, 5))
+    );
+
+    const perProvider: SearchResult[][] = [];
+    settled.forEach((outcome, index) => {
+      if (outcome.status === 'fulfilled') {
+        perProvider.push(outcome.value);
+      } else {
+        console.warn(`Academic provider ${providers[index].id} failed:`, outcome.reason);
+      }
+    });
+
+    // Interleave providers so no single index dominates, dropping duplicate DOIs
+    const merged = mergeResultLists(perProvider);
+
+    if (merged.length === 0) {
+      throw new Error(`All academic search APIs failed for query: ${searchQuery}`);
+    }
+
+    return merged.slice(0, 10);
+  }
+
+  private generateSearchQuery(subtopic: string, originalQuery?: string, timeSensitive: boolean = false): string {
     // Create a focused search query from the subtopic
     let query = subtopic;
 
@@ -85,14 +316,22 @@ export class SearcherAgent {
       word.length > 2 && !stopWords.includes(word)
     );
 
+    // Scholarly APIs and the local index do their own relevance ranking;
+    // phrase quotes and year clauses only narrow their results
+    if (this.searchMode !== 'web') {
+      return words.slice(0, 6).join(' ');
+    }
+
     // Add quotes around key phrases for better search
     if (words.length > 3) {
       query = `"${words.slice(0, 3).join(' ')}" ${words.slice(3).join(' ')}`;
     }
 
-    // Add year constraint for recent results
-    const currentYear = new Date().getFullYear();
-    query += ` ${currentYear} OR ${currentYear - 1}`;
+    // Add year constraint only where the planner asked for recent results
+    if (timeSensitive) {
+      const currentYear = new Date().getFullYear();
+      query += ` ${currentYear} OR ${currentYear - 1}`;
+    }
 
     return query;
   }
@@ -244,168 +483,54 @@ export class SearcherAgent {
   //   }));
   // }
 
-  async searchAllSubtopics(subtopics: string[], originalQuery: string): Promise<SearchResults[]> {
-    const results: SearchResults[] = [];
+  async searchAllSubtopics(
+    subtopics: string[],
+    originalQuery: string,
+    options: SearchAllOptions = {}
+  ): Promise<SearchResults[]> {
+    const timeSensitive = new Set(options.timeSensitiveSubtopics || []);
+    const limit = createLimiter(getSearchConcurrency());
+    let completed = 0;
 
-    // Search each subtopic sequentially to avoid rate limiting
-    for (const subtopic of subtopics) {
-      try {
-        const result = await this.searchSubtopic(subtopic, originalQuery);
-        results.push(result);
+    // Search subtopics in parallel, bounded by SEARCH_CONCURRENCY; results keep subtopic order
+    return Promise.all(subtopics.map(subtopic => limit(async () => {
+      let result: SearchResults;
+      let failed = false;
 
-        // Small delay between searches to be respectful
-        await new Promise(resolve => setTimeout(resolve, 1000));
+      try {
+        result = await this.searchSubtopic(subtopic, originalQuery, timeSensitive.has(subtopic));
       } catch (error) {
         console.error(`Failed to search subtopic: ${subtopic}`, error);
         // Continue with other subtopics even if one fails
-        results.push({
+        failed = true;
+        result = {
           subtopic,
           results: [],
-          searchQuery: this.generateSearchQuery(subtopic, originalQuery)
-        });
-      }
-    }
-
-    return results;
-  }
-
-  validateSearchResults(results: SearchResults[]): boolean {
-    // Check if we have meaningful results
-    const totalResults = results.reduce((sum, r) => sum + r.results.length, 0);
-    return totalResults >= results.length; // At least one result per subtopic
-  }
-
-  // REAL SEARCH API IMPLEMENTATIONS
-
-  private async tavilySearch(query: string): Promise<SearchResult[]> {
-    try {
-      const apiKey = process.env.TAVILY_API_KEY;
-      if (!apiKey) {
-        throw new Error('Tavily API key not configured');
+          searchQuery: this.generateSearchQuery(subtopic, originalQuery, timeSensitive.has(subtopic))
+        };
       }
 
-      const response = await axios.post('https://api.tavily.com/search', {
-        api_key: apiKey,
-        query: query,
-        search_depth: 'basic',
-        include_answer: false,
-        include_raw_content: false,
-        max_results: 5,
-        include_domains: [],
-        exclude_domains: []
-      }, {
-        timeout: 15000
+      completed++;
+      options.onProgress?.({
+        subtopic,
+        completed,
+        total: subtopics.length,
+        resultCount: result.results.length,
+        failed
       });
 
-      if (response.data.results) {
-        return response.data.results.map((result: any) => ({
-          url: result.url,
-          title: result.title,
-          snippet: result.content || result.snippet || 'No description available',
-          source: 'tavily' as const
-        }));
-      }
-
-      return [];
-    } catch (error) {
-      console.warn('Tavily search error:', error);
-      return [];
-    }
+      return result;
+    })));
   }
 
-  private async tavilySearchBackup(query: string): Promise<SearchResult[]> {
-    try {
-      const apiKey = process.env.TAVILY_API_KEY_BACKUP;
-      if (!apiKey) {
-        throw new Error('Backup Tavily API key not configured');
-      }
-
-      const response = await axios.post('https://api.tavily.com/search', {
-        api_key: apiKey,
-        query: query,
-        search_depth: 'basic',
-        include_answer: false,
-        include_raw_content: false,
-        max_results: 5,
-        include_domains: [],
-        exclude_domains: []
-      }, {
-        timeout: 15000
-      });
-
-      if (response.data.results) {
-        return response.data.results.map((result: any) => ({
-          url: result.url,
-          title: result.title,
-          snippet: result.content || result.snippet || 'No description available',
-          source: 'tavily' as const
-        }));
-      }
-
-      return [];
-    } catch (error) {
-      console.warn('Backup Tavily search error:', error);
-      return [];
-    }
+  // Search cache hits and misses for this agent's searches
+  getCacheStats(): CacheStats {
+    return { ...this.cacheStats };
   }
 
-  private async perplexitySearch(query: string): Promise<SearchResult[]> {
-    try {
-      const apiKey = process.env.PERPLEXITY_API_KEY;
-      if (!apiKey) {
-        throw new Error('Perplexity API key not configured');
-      }
-
-      const response = await axios.post('https://api.perplexity.ai/chat/completions', {
-        model: 'llama-3.1-sonar-small-128k-online',
-        messages: [
-          {
-            role: 'system',
-            content: 'You are a helpful research assistant. Provide factual, up-to-date information and cite your sources.'
-          },
-          {
-            role: 'user',
-            content: `Search for information about: ${query}. Provide 5 relevant sources with URLs.`
-          }
-        ],
-        max_tokens: 2000,
-        temperature: 0.1
-      }, {
-        headers: {
-          'Authorization': `Bearer ${apiKey}`,
-          'Content-Type': 'application/json'
-        },
-        timeout: 20000
-      });
-
-      const content = response.data.choices[0]?.message?.content || '';
-
-      // Extract URLs from the response using regex
-      const urlRegex = /https?:\/\/[^\s\)]+/g;
-      const urls = content.match(urlRegex) || [];
-
-      // Split content into sections and create search results
-      const sections = content.split(/\d+\./).filter(s => s.trim());
-      const results: SearchResult[] = [];
-
-      sections.slice(0, 5).forEach((section, index) => {
-        const lines = section.trim().split('\n');
-        const title = lines[0] || `Source ${index + 1}`;
-        const snippet = lines.slice(1).join(' ').substring(0, 200);
-        const url = urls[index] || 'https://example.com';
-
-        results.push({
-          url,
-          title: title.replace(/^\d+\.\s*/, ''),
-          snippet,
-          source: 'perplexity' as const
-        });
-      });
-
-      return results;
-    } catch (error) {
-      console.warn('Perplexity search error:', error);
-      return [];
-    }
+  validateSearchResults(results: SearchResults[]): boolean {
+    // Check if we have meaningful results
+    const totalResults = results.reduce((sum, r) => sum + r.results.length, 0);
+    return totalResults >= results.length; // At least one result per subtopic
   }
 }
\ No newline at end of file
@@ -0,0 +1,158 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { getCacheBackendName, getCacheDir } from './config';
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+}
+
+interface CacheEntry<T> {
+  expiresAt: number;
+  value: T;
+}
+
+export interface CacheBackend {
+  get<T>(namespace: string, key: string): Promise<CacheEntry<T> | null>;
+  set<T>(namespace: string, key: string, entry: CacheEntry<T>): Promise<void>;
+  delete(namespace: string, key: string): Promise<void>;
+}
+
+export function createCacheStats(): CacheStats {
+  return { hits: 0, misses: 0 };
+}
+
+export function formatCacheStats(label: string, stats: CacheStats): string {
+  return `${label}: ${stats.hits} hit${stats.hits === 1 ? '' : 's'}, ${stats.misses} miss${stats.misses === 1 ? '' : 'es'}`;
+}
+
+export class MemoryCacheBackend implements CacheBackend {
+  private entries = new Map<string, CacheEntry<unknown>>();
+
+  async get<T>(namespace: string, key: string): Promise<CacheEntry<T> | null> {
+    return (this.entries.get(`${namespace}:${key}`) as CacheEntry<T> | undefined) || null;
+  }
+
+  async set<T>(namespace: string, key: string, entry: CacheEntry<T>): Promise<void> {
+    this.entries.set(`${namespace}:${key}`, entry);
+  }
+
+  async delete(namespace: string, key: string): Promise<void> {
+    this.entries.delete(`${namespace}:${key}`);
+  }
+}
+
+// One JSON file per entry, named by a hash of the key, under <dir>/<namespace>/
+export class FileCacheBackend implements CacheBackend {
+  private dir: string;
+
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  private filePath(namespace: string, key: string): string {
+    const hash = crypto.createHash('sha256').update(key).digest('hex');
+    return path.join(this.dir, namespace, `${hash}.json`);
+  }
+
+  async get<T>(namespace: string, key: string): Promise<CacheEntry<T> | null> {
+    try {
+      const data = await fs.readFile(this.filePath(namespace, key), 'utf-8');
+      return JSON.parse(data) as CacheEntry<T>;
+    } catch {
+      return null;
+    }
+  }
+
+  async set<T>(namespace: string, key: string, entry: CacheEntry<T>): Promise<void> {
+    const filePath = this.filePath(namespace, key);
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(tempPath, JSON.stringify(entry));
+    await fs.rename(tempPath, filePath);
+  }
+
+  async delete(namespace: string, key: string): Promise<void> {
+    await fs.unlink(this.filePath(namespace, key)).catch(() => undefined);
+  }
+}
+
+let sharedBackend: CacheBackend | null | undefined;
+
+// Backend chosen by CACHE_BACKEND (file, memory or none); null disables caching
+export function getCacheBackend(): CacheBackend | null {
+  if (sharedBackend === undefined) {
+    const name = getCacheBackendName();
+    if (name === 'none') {
+      sharedBackend = null;
+    } else if (name === 'memory') {
+      sharedBackend = new MemoryCacheBackend();
+    } else {
+      sharedBackend = new FileCacheBackend(getCacheDir());
+    }
+  }
+  return sharedBackend;
+}
+
+export class TtlCache<T> {
+  private namespace: string;
+  private ttlMs: number;
+  private backend: CacheBackend | null;
+
+  constructor(namespace: string, ttlMs: number, backend: CacheBackend | null = getCacheBackend()) {
+    this.namespace = namespace;
+    this.ttlMs = ttlMs;
+    this.backend = ttlMs > 0 ? backend : null;
+  }
+
+  async get(key: string, stats?: CacheStats): Promise<T | undefined> {
+    if (!this.backend) {
+      return undefined;
+    }
+
+    const entry = await this.backend.get<T>(this.namespace, key);
+    if (entry && entry.expiresAt > Date.now()) {
+      if (stats) stats.hits++;
+      return entry.value;
+    }
+
+    if (entry) {
+      await this.backend.delete(this.namespace, key);
+    }
+    if (stats) stats.misses++;
+    return undefined;
+  }
+
+  async set(key: string, value: T): Promise<void> {
+    if (!this.backend) {
+      return;
+    }
+
+    try {
+      await this.backend.set(this.namespace, key, { expiresAt: Date.now() + this.ttlMs, value });
+    } catch (error) {
+      console.warn(`Failed to write ${this.namespace} cache entry:`, error);
+    }
+  }
+
+  // Returns the cached value or loads, stores and returns a fresh one.
+  // shouldCache lets callers skip storing results such as empty lists.
+  async getOrLoad(
+    key: string,
+    load: () => Promise<T>,
+    stats?: CacheStats,
+    shouldCache: (value: T) => boolean = () => true
+  ): Promise<T> {
+    const cached = await this.get(key, stats);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const value = await load();
+    if (shouldCache(value)) {
+      await this.set(key, value);
+    }
+    return value;
+  }
+}
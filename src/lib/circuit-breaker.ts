@@ -0,0 +1,171 @@
+import { getCircuitBreakerCooldownMs, getCircuitBreakerThreshold } from './config';
+
+// Outcomes kept per breaker for the error rate and latency figures
+const WINDOW_SIZE = 20;
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+interface CallOutcome {
+  ok: boolean;
+  latencyMs: number;
+}
+
+export interface CircuitStatus {
+  name: string;
+  state: CircuitState;
+  calls: number;
+  failures: number;
+  consecutiveFailures: number;
+  errorRate: number;
+  averageLatencyMs: number | null;
+  openUntil?: string;
+  lastError?: string;
+}
+
+export class CircuitOpenError extends Error {
+  constructor(name: string, openUntil: number) {
+    super(`Circuit open for ${name} until ${new Date(openUntil).toISOString()}`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+// Closed: calls pass. After `threshold` consecutive failures the circuit opens
+// and calls are refused for `cooldownMs`; then one trial call is let through
+// (half-open) and its outcome closes or re-opens the circuit.
+export class CircuitBreaker {
+  readonly name: string;
+  private threshold: number;
+  private cooldownMs: number;
+  private openUntil = 0;
+  private trialInFlight = false;
+  private consecutiveFailures = 0;
+  private calls = 0;
+  private failures = 0;
+  private recent: CallOutcome[] = [];
+  private lastError?: string;
+
+  constructor(name: string, threshold: number, cooldownMs: number) {
+    this.name = name;
+    this.threshold = threshold;
+    this.cooldownMs = cooldownMs;
+  }
+
+  get state(): CircuitState {
+    if (this.consecutiveFailures < this.threshold) {
+      return 'closed';
+    }
+    return Date.now() < this.openUntil ? 'open' : 'half-open';
+  }
+
+  isAvailable(): boolean {
+    const state = this.state;
+    return state === 'closed' || (state === 'half-open' && !this.trialInFlight);
+  }
+
+  // `isFailure` lets callers ignore errors that are not the provider's fault
+  async run<T>(task: () => Promise<T>, isFailure: (error: unknown) => boolean = () => true): Promise<T> {
+    if (!this.isAvailable()) {
+      throw new CircuitOpenError(this.name, this.openUntil);
+    }
+
+    const isTrial = this.state === 'half-open';
+    if (isTrial) {
+      this.trialInFlight = true;
+    }
+
+    const startedAt = Date.now();
+    try {
+      const result = await task();
+      this.record(true, Date.now() - startedAt);
+      return result;
+    } catch (error) {
+      if (isFailure(error)) {
+        this.lastError = error instanceof Error ? error.message : String(error);
+        this.record(false, Date.now() - startedAt);
+      }
+      throw error;
+    } finally {
+      if (isTrial) {
+        this.trialInFlight = false;
+      }
+    }
+  }
+
+  private record(ok: boolean, latencyMs: number): void {
+    this.calls++;
+    this.recent.push({ ok, latencyMs });
+    if (this.recent.length > WINDOW_SIZE) {
+      this.recent.shift();
+    }
+
+    if (ok) {
+      this.consecutiveFailures = 0;
+      return;
+    }
+
+    this.failures++;
+    this.consecutiveFailures++;
+    if (this.consecutiveFailures >= this.threshold) {
+      if (this.consecutiveFailures === this.threshold) {
+        console.warn(`Circuit opened for ${this.name} after ${this.threshold} consecutive failures`);
+      }
+      this.openUntil = Date.now() + this.cooldownMs;
+    }
+  }
+
+  getStatus(): CircuitStatus {
+    const state = this.state;
+    const failed = this.recent.filter(outcome => !outcome.ok).length;
+    const totalLatency = this.recent.reduce((sum, outcome) => sum + outcome.latencyMs, 0);
+
+    return {
+      name: this.name,
+      state,
+      calls: this.calls,
+      failures: this.failures,
+      consecutiveFailures: this.consecutiveFailures,
+      errorRate: this.recent.length > 0 ? failed / this.recent.length : 0,
+      averageLatencyMs: this.recent.length > 0 ? Math.round(totalLatency / this.recent.length) : null,
+      openUntil: state === 'open' ? new Date(this.openUntil).toISOString() : undefined,
+      lastError: this.lastError
+    };
+  }
+}
+
+// One breaker per search provider ("search:<id>") and per model ("model:<id>")
+export class CircuitBreakerRegistry {
+  private breakers = new Map<string, CircuitBreaker>();
+  private threshold: number;
+  private cooldownMs: number;
+
+  constructor(threshold: number, cooldownMs: number) {
+    this.threshold = threshold;
+    this.cooldownMs = cooldownMs;
+  }
+
+  get(name: string): CircuitBreaker {
+    let breaker = this.breakers.get(name);
+    if (!breaker) {
+      breaker = new CircuitBreaker(name, this.threshold, this.cooldownMs);
+      this.breakers.set(name, breaker);
+    }
+    return breaker;
+  }
+
+  isAvailable(name: string): boolean {
+    return this.get(name).isAvailable();
+  }
+
+  run<T>(name: string, task: () => Promise<T>, isFailure?: (error: unknown) => boolean): Promise<T> {
+    return this.get(name).run(task, isFailure);
+  }
+
+  listStatus(): CircuitStatus[] {
+    return [...this.breakers.values()].map(breaker => breaker.getStatus());
+  }
+}
+
+export const circuitBreakers = new CircuitBreakerRegistry(
+  getCircuitBreakerThreshold(),
+  getCircuitBreakerCooldownMs()
+);
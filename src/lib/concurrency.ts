@@ -0,0 +1,58 @@
+export type Limiter = <T>(task: () => Promise<T>) => Promise<T>;
+
+// Runs at most `concurrency` tasks at once; the rest wait in FIFO order
+export function createLimiter(concurrency: number): Limiter {
+  const limit = Math.max(1, Math.floor(concurrency));
+  const queue: Array<() => void> = [];
+  let active = 0;
+
+  const next = () => {
+    if (active >= limit || queue.length === 0) return;
+    active++;
+    queue.shift()!();
+  };
+
+  return <T>(task: () => Promise<T>) => new Promise<T>((resolve, reject) => {
+    queue.push(() => {
+      task().then(resolve, reject).finally(() => {
+        active--;
+        next();
+      });
+    });
+    next();
+  });
+}
+
+// Spaces calls per key so each key stays under its requests-per-minute limit
+export class RateLimiter {
+  private limits: Record<string, number>;
+  private nextSlot = new Map<string, number>();
+
+  constructor(limits: Record<string, number> = {}) {
+    this.limits = limits;
+  }
+
+  async schedule<T>(key: string, task: () => Promise<T>): Promise<T> {
+    const perMinute = this.limits[key];
+    if (!perMinute || perMinute <= 0) {
+      return task();
+    }
+    return this.scheduleEvery(key, 60000 / perMinute, task);
+  }
+
+  // Same spacing with an interval chosen per call, e.g. a host's crawl delay
+  async scheduleEvery<T>(key: string, interval: number, task: () => Promise<T>): Promise<T> {
+    if (interval <= 0) {
+      return task();
+    }
+
+    const now = Date.now();
+    const slot = Math.max(now, this.nextSlot.get(key) || 0);
+    this.nextSlot.set(key, slot + interval);
+
+    if (slot > now) {
+      await new Promise(resolve => setTimeout(resolve, slot - now));
+    }
+    return task();
+  }
+}
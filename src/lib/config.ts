@@ -39,4 +39,211 @@ export function getApiKeySource(): string {
   }
 
   return 'Not configured';
-}
\ No newline at end of file
+}
+
+export interface SearchProviderEntry {
+  id: string;
+  type?: string;
+  enabled: boolean;
+}
+
+// SEARCH_PROVIDERS is a comma-separated, ordered list of provider ids.
+// "id:type" registers an extra instance of a provider type and "!id" keeps
+// a provider registered but turned off, e.g. "tavily,!perplexity,searxng".
+export function getSearchProviderEntries(): SearchProviderEntry[] | null {
+  const value = process.env.SEARCH_PROVIDERS;
+  if (!value || !value.trim()) {
+    return null;
+  }
+
+  return value.split(',')
+    .map(entry => entry.trim())
+    .filter(entry => entry.length > 0)
+    .map(entry => {
+      const enabled = !entry.startsWith('!');
+      const [id, type] = entry.replace(/^!/, '').split(':').map(part => part.trim());
+      return { id, type: type || undefined, enabled };
+    });
+}
+
+// Folder of Markdown, text, HTML and PDF files to research over
+export function getLocalCorpusDir(): string | null {
+  const dir = process.env.LOCAL_CORPUS_DIR;
+  return dir && dir.trim() ? dir.trim() : null;
+}
+
+function readPositiveInt(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return isNaN(value) || value <= 0 ? fallback : value;
+}
+
+function readNonNegativeInt(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return isNaN(value) || value < 0 ? fallback : value;
+}
+
+// How many subtopics are searched at the same time
+export function getSearchConcurrency(): number {
+  return readPositiveInt('SEARCH_CONCURRENCY', 3);
+}
+
+// How many evaluation batches (up to four sources each) run at the same time,
+// across all subtopics
+export function getEvaluationConcurrency(): number {
+  return readPositiveInt('EVALUATION_CONCURRENCY', 3);
+}
+
+// Model requests per minute for source evaluation, shared by all research
+// runs on the server; 0 (default) leaves them unspaced
+export function getEvaluationRateLimit(): number {
+  return readNonNegativeInt('EVALUATION_RATE_LIMIT', 0);
+}
+
+// SEARCH_RATE_LIMITS maps provider ids to requests per minute,
+// e.g. "tavily=60,perplexity=20"
+export function getSearchRateLimits(): Record<string, number> {
+  const limits: Record<string, number> = {};
+  (process.env.SEARCH_RATE_LIMITS || '').split(',').forEach(entry => {
+    const [id, value] = entry.split('=').map(part => part.trim());
+    const perMinute = parseInt(value, 10);
+    if (id && !isNaN(perMinute) && perMinute > 0) {
+      limits[id] = perMinute;
+    }
+  });
+  return limits;
+}
+
+// Whether research requests expand each subtopic into several LLM-written
+// queries when the request does not say; QUERY_EXPANSION=true turns it on
+export function isQueryExpansionEnabledByDefault(): boolean {
+  return process.env.QUERY_EXPANSION === 'true';
+}
+
+// Extra queries generated per subtopic when query expansion is on
+export function getQueryExpansionCount(): number {
+  return readPositiveInt('QUERY_EXPANSION_COUNT', 3);
+}
+
+// CACHE_BACKEND: "file" (default), "memory" or "none"
+export function getCacheBackendName(): 'file' | 'memory' | 'none' {
+  const value = (process.env.CACHE_BACKEND || 'file').toLowerCase();
+  return value === 'memory' || value === 'none' ? value : 'file';
+}
+
+export function getCacheDir(): string {
+  if (process.env.CACHE_DIR) {
+    return process.env.CACHE_DIR;
+  }
+  return process.env.NODE_ENV === 'production' ? '/tmp/atlas-cache' : './.cache';
+}
+
+// Search results keyed by provider and normalized query; 0 disables
+export function getSearchCacheTtlMs(): number {
+  return readNonNegativeInt('SEARCH_CACHE_TTL_SECONDS', 24 * 60 * 60) * 1000;
+}
+
+// Fetched page content keyed by canonical URL; 0 disables
+export function getPageCacheTtlMs(): number {
+  return readNonNegativeInt('PAGE_CACHE_TTL_SECONDS', 7 * 24 * 60 * 60) * 1000;
+}
+
+// Keys for one credential pool: the comma-separated "<ENV>S" list
+// (e.g. TAVILY_API_KEYS) plus the single-key "<ENV>" and "<ENV>_BACKUP"
+export function getPooledApiKeys(envName: string): string[] {
+  const keys = [
+    ...(process.env[`${envName}S`] || '').split(','),
+    process.env[envName] || '',
+    process.env[`${envName}_BACKUP`] || ''
+  ].map(key => key.trim()).filter(key => key.length > 0);
+  return [...new Set(keys)];
+}
+
+// How long a key is skipped after a 429 without a Retry-After header
+export function getRateLimitCooldownMs(): number {
+  return readPositiveInt('CREDENTIAL_COOLDOWN_SECONDS', 60) * 1000;
+}
+
+// How long a key is skipped after a 401 (invalid) or 402 (out of credits)
+export function getAuthFailureCooldownMs(): number {
+  return readPositiveInt('CREDENTIAL_AUTH_COOLDOWN_SECONDS', 60 * 60) * 1000;
+}
+
+// Bearer token for /api/admin routes; without it they only answer outside production
+export function getAdminToken(): string | null {
+  const token = process.env.ADMIN_TOKEN;
+  return token && token.trim() ? token.trim() : null;
+}
+
+// Consecutive failures that open a provider's or model's circuit breaker
+export function getCircuitBreakerThreshold(): number {
+  return readPositiveInt('CIRCUIT_BREAKER_THRESHOLD', 3);
+}
+
+// How long an open circuit skips its provider or model before a trial call
+export function getCircuitBreakerCooldownMs(): number {
+  return readPositiveInt('CIRCUIT_BREAKER_COOLDOWN_SECONDS', 60) * 1000;
+}
+
+// Tokens of best-matching passages sent per source when evaluating it alone;
+// batch evaluation gives each source a third of this
+export function getPassageTokenBudget(): number {
+  return readPositiveInt('PASSAGE_TOKEN_BUDGET', 800);
+}
+
+// OpenRouter embedding model for semantic passage ranking; lexical (BM25) only when unset
+export function getEmbeddingModel(): string | null {
+  const model = process.env.EMBEDDING_MODEL;
+  return model && model.trim() ? model.trim() : null;
+}
+
+// Largest response body the page fetcher will read, in bytes (after decompression)
+export function getFetchMaxBytes(): number {
+  return readPositiveInt('FETCH_MAX_BYTES', 10 * 1024 * 1024);
+}
+
+export function getFetchMaxRedirects(): number {
+  return readNonNegativeInt('FETCH_MAX_REDIRECTS', 5);
+}
+
+// Minimum gap between two page fetches from the same host; a longer
+// robots.txt Crawl-delay takes precedence
+export function getFetchHostDelayMs(): number {
+  return readNonNegativeInt('FETCH_HOST_DELAY_MS', 1000);
+}
+
+// RESPECT_ROBOTS_TXT=false skips robots.txt checks (e.g. for an internal corpus mirror)
+export function isRobotsTxtRespected(): boolean {
+  return process.env.RESPECT_ROBOTS_TXT !== 'false';
+}
+
+// Minimum freshness score (0-10) a dated source needs to count as high quality
+// for a time-sensitive subtopic; 0 disables the check
+export function getMinFreshnessScore(): number {
+  return readNonNegativeInt('MIN_FRESHNESS_SCORE', 4);
+}
+
+// What happens to pages detected as paywalls, login walls, captchas or soft
+// 404s: "snippet" (default) evaluates the search snippet instead, "exclude"
+// leaves them out of the report
+export function getInaccessibleSourcePolicy(): 'snippet' | 'exclude' {
+  return process.env.INACCESSIBLE_SOURCES === 'exclude' ? 'exclude' : 'snippet';
+}
+
+// Credibility points taken off a source whose text tried to instruct the
+// model (e.g. "ignore previous instructions"); 0 only flags it
+export function getInjectionCredibilityPenalty(): number {
+  return readNonNegativeInt('INJECTION_CREDIBILITY_PENALTY', 3);
+}
+
+// JSON file of credibility profiles (see README); the built-in "default"
+// profile is always available
+export function getCredibilityProfilesFile(): string | null {
+  const file = process.env.CREDIBILITY_PROFILES_FILE;
+  return file && file.trim() ? file.trim() : null;
+}
+
+// Profile used when a research request does not name one
+export function getDefaultCredibilityProfileId(): string {
+  const id = process.env.CREDIBILITY_PROFILE;
+  return id && id.trim() ? id.trim() : 'default';
+}
@@ -0,0 +1,120 @@
+import { FetchedDocument } from './fetcher';
+import { IngestedDocument } from './ingest';
+
+export type AccessIssueKind = 'paywall' | 'login-wall' | 'captcha' | 'soft-404';
+
+export interface AccessIssue {
+  kind: AccessIssueKind;
+  // The signal that matched, e.g. 'text "subscribe to continue reading"'
+  reason: string;
+}
+
+// Thrown when a fetched page is a stub standing in for the content
+export class SourceInaccessibleError extends Error {
+  readonly issue: AccessIssue;
+
+  constructor(url: string, issue: AccessIssue) {
+    super(`Inaccessible source ${url}: ${issue.kind} (${issue.reason})`);
+    this.name = 'SourceInaccessibleError';
+    this.issue = issue;
+  }
+}
+
+// Articles mention subscriptions, sign-ins and "not found" too; only pages
+// with little readable text besides the signal are treated as stubs
+const MAX_STUB_WORDS = 400;
+// Challenge pages have next to no text of their own
+const MAX_CAPTCHA_WORDS = 150;
+
+const CAPTCHA_MARKUP: Array<[RegExp, string]> = [
+  [/class=["'][^"']*g-recaptcha|google\.com\/recaptcha\/api/i, 'reCAPTCHA widget'],
+  [/hcaptcha\.com\/1\/api|class=["'][^"']*h-captcha/i, 'hCaptcha widget'],
+  [/challenges\.cloudflare\.com|\/cdn-cgi\/challenge-platform|cf-chl-|cf_chl_/i, 'Cloudflare challenge'],
+  [/captcha-delivery\.com|perimeterx|px-captcha/i, 'bot-protection challenge']
+];
+
+const CAPTCHA_TEXT = /\b(verify (that )?you are (a )?human|are you a robot|checking (if the site connection is secure|your browser before accessing)|unusual traffic from your (computer|network)|press (and|&) hold|complete the security check|enable javascript and cookies to continue)\b/i;
+
+const PAYWALL_TEXT = /\b(subscribe (now )?to (continue|keep) reading|to continue reading,? (please )?(subscribe|log ?in|sign ?in)|subscribe to (read|unlock|access) (the full|this)|this (article|content|story) is (only )?(available|reserved) (to|for) (paid )?(subscribers|members)|(subscribers|members)[- ]only (content|article)|already a (subscriber|member)|subscription required|unlock (this|the full) (article|story))\b/i;
+
+const PAYWALL_MARKUP = /class=["'][^"']*\b(paywall|piano-(inline|modal)|tp-modal|regwall|meteredContent)\b/i;
+
+const LOGIN_TEXT = /\b((log|sign) ?in (to|or (create|register)[^.]{0,40} to) (continue|view|read|see|access)|you (must|need to) (be )?(logged|signed) ?in|please (log|sign) ?in to|create (a free|an) account to (continue|read|view)|this (page|content) requires (a )?(login|sign-?in))\b/i;
+
+const NOT_FOUND_TITLE = /(\b404\b|page not found|^\s*not found\b|page (does not|doesn't) exist|page (could not|cannot|can't) be found|page (is )?no longer available)/i;
+
+const NOT_FOUND_TEXT = /\b(the page you (are|were|'re) looking for (could not be found|cannot be found|can't be found|does not exist|doesn't exist|is (no longer|not) available|has been (moved|removed))|(this|the requested) (page|article|url) (could not be found|cannot be found|was not found|does not exist|no longer exists)|error 404)\b/i;
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+function quote(match: RegExpMatchArray): string {
+  return `"${match[0].trim().toLowerCase()}"`;
+}
+
+// Looks for paywalls, login walls, captcha challenges and soft 404s (error
+// pages served with a 200) in a fetched web page. PDFs, data files and corpus
+// documents are never flagged.
+export function detectAccessIssue(fetched: FetchedDocument, document: IngestedDocument): AccessIssue | null {
+  if (document.format !== 'html' || fetched.url.startsWith('file:')) {
+    return null;
+  }
+
+  const html = fetched.body;
+  const text = document.text;
+  const words = countWords(text);
+  const title = document.metadata?.title || html.match(/<title[^>]*>([^<]*)<\/title>/i)?.[1] || '';
+
+  if (words <= MAX_CAPTCHA_WORDS) {
+    const widget = CAPTCHA_MARKUP.find(([pattern]) => pattern.test(html));
+    if (widget) {
+      return { kind: 'captcha', reason: widget[1] };
+    }
+    const phrase = text.match(CAPTCHA_TEXT) || title.match(CAPTCHA_TEXT);
+    if (phrase) {
+      return { kind: 'captcha', reason: `text ${quote(phrase)}` };
+    }
+  }
+
+  if (words > MAX_STUB_WORDS) {
+    return null;
+  }
+
+  const notFound = title.match(NOT_FOUND_TITLE);
+  if (notFound) {
+    return { kind: 'soft-404', reason: `title ${quote(notFound)}` };
+  }
+  const notFoundText = text.match(NOT_FOUND_TEXT);
+  if (notFoundText) {
+    return { kind: 'soft-404', reason: `text ${quote(notFoundText)}` };
+  }
+  // Publishers declare gated articles in their JSON-LD
+  if (/"isAccessibleForFree"\s*:\s*"?false"?/i.test(html)) {
+    return { kind: 'paywall', reason: 'isAccessibleForFree: false' };
+  }
+  const paywall = text.match(PAYWALL_TEXT);
+  if (paywall) {
+    return { kind: 'paywall', reason: `text ${quote(paywall)}` };
+  }
+  const paywallMarkup = html.match(PAYWALL_MARKUP);
+  if (paywallMarkup) {
+    return { kind: 'paywall', reason: `markup "${paywallMarkup[1]}"` };
+  }
+
+  const login = text.match(LOGIN_TEXT);
+  if (login) {
+    return { kind: 'login-wall', reason: `text ${quote(login)}` };
+  }
+  if (/<input[^>]+type=["']?password/i.test(html)) {
+    return { kind: 'login-wall', reason: 'password form' };
+  }
+
+  return null;
+}
+
+export function summarizeAccessIssues(issues: AccessIssue[]): string {
+  const counts = new Map<AccessIssueKind, number>();
+  issues.forEach(issue => counts.set(issue.kind, (counts.get(issue.kind) || 0) + 1));
+  return [...counts.entries()].map(([kind, count]) => `${count} ${kind}`).join(', ');
+}
@@ -0,0 +1,197 @@
+import { Readability } from '@mozilla/readability';
+import { parseHTML } from 'linkedom';
+import { toIsoDate } from '../search/dates';
+
+export interface PageMetadata {
+  title?: string;
+  author?: string;
+  publishedDate?: string;
+  // Last revision date, when the page states one
+  modifiedDate?: string;
+  canonicalUrl?: string;
+  siteName?: string;
+}
+
+export interface ExtractedContent extends PageMetadata {
+  // Paragraphs separated by blank lines; headings prefixed with "#", list items with "-"
+  text: string;
+}
+
+const BLOCK_SELECTOR = 'h1, h2, h3, h4, h5, h6, p, li, blockquote, pre, figcaption, td, th, dt, dd';
+
+// Page furniture removed before the fallback extraction
+const BOILERPLATE_SELECTOR = [
+  'script', 'style', 'noscript', 'template', 'svg', 'iframe', 'form',
+  'nav', 'header', 'footer', 'aside',
+  '[role="navigation"]', '[role="banner"]', '[role="contentinfo"]', '[role="dialog"]', '[aria-hidden="true"]'
+].join(', ');
+
+const BOILERPLATE_NAME = /cookie|consent|gdpr|banner|newsletter|subscribe|signup|popup|modal|share|social|related|comment|breadcrumb|sidebar|menu/i;
+
+// Below this, Readability's pick is treated as a miss (e.g. a landing page)
+const MIN_ARTICLE_LENGTH = 250;
+
+function collapse(text: string | null | undefined): string {
+  return (text || '').replace(/\s+/g, ' ').trim();
+}
+
+function readMeta(document: Document, selectors: string[]): string | undefined {
+  for (const selector of selectors) {
+    const value = collapse(document.querySelector(selector)?.getAttribute('content'));
+    if (value) {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+// First datePublished / dateModified / author found in the page's JSON-LD blocks
+function readJsonLd(document: Document): { datePublished?: string; dateModified?: string; author?: string } {
+  for (const script of Array.from(document.querySelectorAll('script[type="application/ld+json"]'))) {
+    try {
+      const data = JSON.parse(script.textContent || '');
+      const nodes: unknown[] = Array.isArray(data) ? data : Array.isArray(data?.['@graph']) ? data['@graph'] : [data];
+
+      for (const node of nodes) {
+        if (!node || typeof node !== 'object') continue;
+        const record = node as Record<string, unknown>;
+        const authors = ([] as unknown[]).concat(record.author || []);
+        const author = authors
+          .map(entry => typeof entry === 'string' ? entry : (entry as Record<string, unknown>)?.name)
+          .filter((name): name is string => typeof name === 'string' && name.trim().length > 0)
+          .join(', ');
+
+        if (typeof record.datePublished === 'string' || typeof record.dateModified === 'string' || author) {
+          return {
+            datePublished: typeof record.datePublished === 'string' ? record.datePublished : undefined,
+            dateModified: typeof record.dateModified === 'string' ? record.dateModified : undefined,
+            author: author || undefined
+          };
+        }
+      }
+    } catch {
+      // Malformed JSON-LD is common; ignore the block
+    }
+  }
+  return {};
+}
+
+function resolveUrl(value: string | null | undefined, baseUrl: string): string | undefined {
+  if (!value) {
+    return undefined;
+  }
+  try {
+    const url = new URL(value, baseUrl);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.href : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function readMetadata(document: Document, url: string): PageMetadata {
+  const jsonLd = readJsonLd(document);
+  const timeElement = document.querySelector('article time[datetime], time[datetime]');
+
+  return {
+    title: readMeta(document, ['meta[property="og:title"]', 'meta[name="twitter:title"]'])
+      || collapse(document.querySelector('title')?.textContent) || undefined,
+    author: readMeta(document, ['meta[name="author"]', 'meta[property="article:author"]', 'meta[name="citation_author"]'])
+      || jsonLd.author,
+    publishedDate: toIsoDate(
+      readMeta(document, [
+        'meta[property="article:published_time"]',
+        'meta[name="citation_publication_date"]',
+        'meta[name="date"]',
+        'meta[itemprop="datePublished"]'
+      ]) || jsonLd.datePublished || timeElement?.getAttribute('datetime')
+    ),
+    modifiedDate: toIsoDate(
+      readMeta(document, [
+        'meta[property="article:modified_time"]',
+        'meta[property="og:updated_time"]',
+        'meta[name="last-modified"]',
+        'meta[itemprop="dateModified"]'
+      ]) || jsonLd.dateModified
+    ),
+    canonicalUrl: resolveUrl(document.querySelector('link[rel="canonical"]')?.getAttribute('href'), url)
+      || resolveUrl(readMeta(document, ['meta[property="og:url"]']), url),
+    siteName: readMeta(document, ['meta[property="og:site_name"]'])
+  };
+}
+
+// Leaf block elements in document order, rendered as paragraphs
+function toParagraphs(root: Element): string {
+  const paragraphs: string[] = [];
+
+  for (const block of Array.from(root.querySelectorAll(BLOCK_SELECTOR))) {
+    // Containers such as <li><p>..</p></li> are emitted through their children
+    if (block.querySelector(BLOCK_SELECTOR)) {
+      continue;
+    }
+
+    const text = collapse(block.textContent);
+    if (!text) {
+      continue;
+    }
+
+    const tag = block.tagName.toLowerCase();
+    let paragraph = text;
+    if (/^h[1-6]$/.test(tag)) {
+      paragraph = `${'#'.repeat(parseInt(tag[1], 10))} ${text}`;
+    } else if (tag === 'li' || block.parentElement?.tagName.toLowerCase() === 'li') {
+      paragraph = `- ${text}`;
+    }
+
+    if (paragraphs[paragraphs.length - 1] !== paragraph) {
+      paragraphs.push(paragraph);
+    }
+  }
+
+  // Pages built from bare <div>s have no blocks; fall back to their text
+  return paragraphs.length > 0 ? paragraphs.join('\n\n') : collapse(root.textContent);
+}
+
+function extractFallback(document: Document): string {
+  const body = document.body;
+  if (!body) {
+    return '';
+  }
+
+  body.querySelectorAll(BOILERPLATE_SELECTOR).forEach(element => element.remove());
+  body.querySelectorAll('[class], [id]').forEach(element => {
+    const name = `${element.getAttribute('class') || ''} ${element.getAttribute('id') || ''}`;
+    if (BOILERPLATE_NAME.test(name)) {
+      element.remove();
+    }
+  });
+
+  const main = body.querySelector('main, article, [role="main"]') || body;
+  return toParagraphs(main);
+}
+
+// Finds the main article body of an HTML page (Readability) and its metadata.
+// Pages Readability cannot make sense of fall back to the body minus
+// navigation, banners and other boilerplate.
+export function extractMainContent(html: string, url: string): ExtractedContent {
+  const metadata = readMetadata(parseHTML(html).document as unknown as Document, url);
+
+  // Readability modifies the tree it parses, so it gets its own copy
+  const article = new Readability<Element>(parseHTML(html).document as unknown as Document, {
+    serializer: node => node as Element
+  }).parse();
+
+  let text = article?.content ? toParagraphs(article.content) : '';
+  if (text.length < MIN_ARTICLE_LENGTH) {
+    // Prefer the boilerplate-stripped body; Readability's short pick may be a banner
+    text = extractFallback(parseHTML(html).document as unknown as Document) || text;
+  }
+
+  return {
+    ...metadata,
+    title: metadata.title || collapse(article?.title) || undefined,
+    author: metadata.author || collapse(article?.byline) || undefined,
+    publishedDate: metadata.publishedDate || toIsoDate(article?.publishedTime),
+    siteName: metadata.siteName || collapse(article?.siteName) || undefined,
+    text
+  };
+}
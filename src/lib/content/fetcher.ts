@@ -0,0 +1,78 @@
+import { CacheStats, TtlCache } from '../cache';
+import { getPageCacheTtlMs } from '../config';
+import { getLocalCorpus } from '../corpus/local-corpus';
+import { canonicalizeUrl } from '../search/url';
+import { extractPdfPages } from './pdf';
+import { FetchBlockedError, safeFetch } from './safe-fetch';
+
+export interface FetchedDocument {
+  url: string;
+  contentType: string;
+  // Decoded text; for PDFs, the page texts joined
+  body: string;
+  // Text of each page (index 0 is page 1) for PDFs
+  pages?: string[];
+}
+
+export interface FetchOptions {
+  timeout?: number;
+  cacheStats?: CacheStats;
+}
+
+const pageCache = new TtlCache<FetchedDocument>('pages', getPageCacheTtlMs());
+
+function isPdf(data: Uint8Array): boolean {
+  return data.length > 4 && String.fromCharCode(...data.subarray(0, 5)) === '%PDF-';
+}
+
+// Decodes with the charset from the Content-Type header, defaulting to UTF-8
+function decodeText(data: Uint8Array, contentType: string): string {
+  const charset = contentType.match(/charset=["']?([\w-]+)/i)?.[1];
+  try {
+    return new TextDecoder(charset || 'utf-8').decode(data);
+  } catch {
+    return new TextDecoder('utf-8').decode(data);
+  }
+}
+
+// Single entry point for reading a source, whether it is a web page or a
+// file:// document from the local corpus
+export async function fetchDocument(url: string, options: FetchOptions = {}): Promise<FetchedDocument> {
+  if (url.startsWith('file:')) {
+    const corpus = getLocalCorpus();
+    if (!corpus) {
+      throw new Error('Local corpus not configured; cannot read file URLs');
+    }
+
+    const document = await corpus.readDocument(url);
+    const page = url.match(/#page=(\d+)$/);
+    const pageText = page && document.pages ? document.pages[parseInt(page[1], 10) - 1] : undefined;
+
+    return {
+      url,
+      // Corpus text is already extracted, so HTML files are handed over as plain text
+      contentType: 'text/plain',
+      body: pageText ?? document.text,
+      pages: page ? undefined : document.pages
+    };
+  }
+
+  return pageCache.getOrLoad(canonicalizeUrl(url), async () => {
+    const response = await safeFetch(url, { timeout: options.timeout });
+    const contentType = response.contentType;
+    const data = response.data;
+
+    // Servers often label PDFs application/octet-stream, so check the magic bytes too
+    if (contentType.includes('pdf') || isPdf(data)) {
+      const pages = await extractPdfPages(data);
+      return { url, contentType: 'application/pdf', body: pages.join('\n\n'), pages };
+    }
+
+    // octet-stream is only accepted from safeFetch so PDFs labelled that way get through
+    if (contentType.toLowerCase().startsWith('application/octet-stream')) {
+      throw new FetchBlockedError(url, 'binary content that is not a PDF');
+    }
+
+    return { url, contentType, body: decodeText(data, contentType) };
+  }, options.cacheStats);
+}
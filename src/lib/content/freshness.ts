@@ -0,0 +1,60 @@
+import { toIsoDate } from '../search/dates';
+import { AcademicMetadata } from '../search/types';
+import { PageMetadata } from './extract';
+
+export interface SourceDates {
+  // ISO dates (YYYY-MM-DD); a year-only record is dated January 1st
+  publishedDate?: string;
+  updatedDate?: string;
+  // 0-10 from the most recent of the two; undefined when the source is undated
+  freshnessScore?: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Age in days -> score, checked in order
+const FRESHNESS_STEPS: Array<[maxAgeDays: number, score: number]> = [
+  [31, 10],
+  [92, 9],
+  [183, 8],
+  [366, 7],
+  [2 * 366, 5],
+  [3 * 366, 4],
+  [5 * 366, 3],
+  [10 * 366, 2]
+];
+
+export function scoreFreshness(date: string, now: Date = new Date()): number | undefined {
+  const timestamp = Date.parse(date);
+  if (isNaN(timestamp)) {
+    return undefined;
+  }
+
+  // Dates slightly in the future are timezone noise; treat them as today
+  const ageDays = Math.max(0, (now.getTime() - timestamp) / DAY_MS);
+  return FRESHNESS_STEPS.find(([maxAgeDays]) => ageDays <= maxAgeDays)?.[1] ?? 1;
+}
+
+// Publication and update dates from what the page says about itself, falling
+// back to the search provider's date and the scholarly record's year
+export function resolveSourceDates(
+  providerDate?: string,
+  page?: PageMetadata,
+  academic?: AcademicMetadata,
+  now: Date = new Date()
+): SourceDates {
+  const publishedDate = page?.publishedDate
+    || toIsoDate(providerDate)
+    || (academic?.year ? `${academic.year}-01-01` : undefined);
+  // An update before publication is a bad tag, not a revision
+  const updatedDate = page?.modifiedDate && (!publishedDate || page.modifiedDate > publishedDate)
+    ? page.modifiedDate
+    : undefined;
+
+  const latest = updatedDate || publishedDate;
+  return {
+    publishedDate,
+    updatedDate,
+    freshnessScore: latest ? scoreFreshness(latest, now) : undefined
+  };
+}
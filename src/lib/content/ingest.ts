@@ -0,0 +1,164 @@
+import { extractMainContent, PageMetadata } from './extract';
+import { FetchedDocument } from './fetcher';
+import { stripTags } from './markup';
+
+export type DocumentFormat = 'html' | 'pdf' | 'text' | 'json' | 'csv';
+
+export interface IngestedDocument {
+  format: DocumentFormat;
+  // Paged documents carry "[Page N]" markers so quotes can be traced to a page
+  text: string;
+  pageCount?: number;
+  metadata?: PageMetadata;
+}
+
+// JSON and CSV are summarized row by row; anything past this is dropped
+const MAX_STRUCTURED_LINES = 200;
+
+export function detectFormat(contentType: string, url: string): DocumentFormat | null {
+  const type = contentType.toLowerCase();
+  const path = url.split(/[?#]/)[0].toLowerCase();
+
+  // A specific Content-Type wins: a .pdf or .csv URL may serve an HTML viewer
+  // or login page. The extension only decides for missing or generic types.
+  const generic = !type.trim() || type.startsWith('application/octet-stream') || type.startsWith('text/plain');
+  if (generic) {
+    if (path.endsWith('.pdf')) return 'pdf';
+    if (path.endsWith('.json')) return 'json';
+    if (path.endsWith('.csv')) return 'csv';
+  }
+
+  if (type.includes('pdf')) return 'pdf';
+  if (type.includes('json')) return 'json';
+  if (type.includes('csv')) return 'csv';
+  if (type.includes('html') || type.includes('xml')) return 'html';
+  if (type.startsWith('text/')) return 'text';
+  return null;
+}
+
+// "key.path: value" lines, so nested records read as plain facts
+function flattenJson(value: unknown, prefix: string, lines: string[]): void {
+  if (lines.length >= MAX_STRUCTURED_LINES) {
+    return;
+  }
+
+  if (Array.isArray(value)) {
+    value.forEach((item, index) => flattenJson(item, `${prefix}[${index}]`, lines));
+  } else if (value && typeof value === 'object') {
+    Object.entries(value).forEach(([key, item]) => flattenJson(item, prefix ? `${prefix}.${key}` : key, lines));
+  } else if (value !== null && value !== undefined && value !== '') {
+    lines.push(`${prefix || 'value'}: ${String(value)}`);
+  }
+}
+
+function ingestJson(body: string): string {
+  try {
+    const lines: string[] = [];
+    flattenJson(JSON.parse(body), '', lines);
+    return lines.join('\n');
+  } catch {
+    // Not valid JSON after all (e.g. JSON lines); keep the raw text
+    return body.trim();
+  }
+}
+
+// Splits CSV rows honoring quoted fields ("a, b" and doubled "" quotes)
+function parseCsv(body: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < body.length; i++) {
+    const char = body[i];
+    if (quoted) {
+      if (char === '"' && body[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field.trim());
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && body[i + 1] === '\n') i++;
+      row.push(field.trim());
+      if (row.some(cell => cell.length > 0)) rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  row.push(field.trim());
+  if (row.some(cell => cell.length > 0)) rows.push(row);
+  return rows;
+}
+
+// One line per row, each value labelled with its column header
+function ingestCsv(body: string): string {
+  const [header, ...rows] = parseCsv(body);
+  if (!header) {
+    return '';
+  }
+
+  const lines = rows.slice(0, MAX_STRUCTURED_LINES).map((row, index) =>
+    `Row ${index + 1}: ${row.map((cell, column) => `${header[column] || `column ${column + 1}`}: ${cell}`).join('; ')}`
+  );
+
+  const omitted = rows.length - lines.length;
+  return [
+    `Columns: ${header.join(', ')} (${rows.length} rows)`,
+    ...lines,
+    omitted > 0 ? `(${omitted} more rows not shown)` : ''
+  ].filter(Boolean).join('\n');
+}
+
+// Turns a fetched document into evaluator-ready text according to its format
+export function ingestDocument(document: FetchedDocument): IngestedDocument {
+  if (document.pages && document.pages.length > 0) {
+    return {
+      format: 'pdf',
+      text: document.pages
+        .map((page, index) => page ? `[Page ${index + 1}]\n${page}` : '')
+        .filter(Boolean)
+        .join('\n\n'),
+      pageCount: document.pages.length
+    };
+  }
+
+  const format = detectFormat(document.contentType, document.url);
+  switch (format) {
+    case 'html': {
+      if (!/html/i.test(document.contentType) && !/<html|<body/i.test(document.body)) {
+        // Feeds and other XML: keep the text, there is no article to find
+        return { format, text: stripTags(document.body) };
+      }
+      const { text, ...metadata } = extractMainContent(document.body, document.url);
+      return { format, text, metadata };
+    }
+    case 'json':
+      return { format, text: ingestJson(document.body) };
+    case 'csv':
+      return { format, text: ingestCsv(document.body) };
+    case 'pdf': {
+      // A single corpus page requested as file:///doc.pdf#page=N
+      const page = document.url.match(/^file:.*#page=(\d+)$/);
+      if (page && document.body.trim()) {
+        return { format, text: `[Page ${page[1]}]\n${document.body.trim()}`, pageCount: 1 };
+      }
+      // A PDF without extracted pages had no text layer (e.g. a scan)
+      throw new Error(`No extractable text in PDF: ${document.url}`);
+    }
+    case 'text':
+      return { format, text: document.body.trim() };
+    default:
+      throw new Error(`Unsupported content type "${document.contentType}" for ${document.url}`);
+  }
+}
@@ -0,0 +1,125 @@
+import { BM25Index } from '../corpus/bm25';
+import { chunkText, TextChunk } from '../corpus/chunker';
+
+export interface SelectedPassage {
+  text: string;
+  // Page of a paged document (PDF) the passage came from
+  page?: number;
+  // BM25 score, or cosine similarity when embeddings were used
+  score: number;
+}
+
+export type EmbedFunction = (texts: string[]) => Promise<number[][]>;
+
+export interface PassageOptions {
+  budgetTokens: number;
+  chunkChars?: number;
+  // Re-ranks the lexical candidates semantically when provided
+  embed?: EmbedFunction;
+}
+
+// Rough size of an English token, used to turn the token budget into characters
+const CHARS_PER_TOKEN = 4;
+// Lexical candidates passed on to the embedding re-rank
+const RERANK_CANDIDATES = 24;
+
+// Splits "[Page N]"-marked text into per-page chunks; other text is chunked whole
+function chunkDocument(text: string, chunkChars: number): TextChunk[] {
+  const pageRegex = /\[Page (\d+)\]\n/g;
+  const markers = [...text.matchAll(pageRegex)];
+  if (markers.length === 0) {
+    return chunkText(text, { maxChars: chunkChars, overlapChars: 0 });
+  }
+
+  return markers.flatMap((marker, index) => {
+    const start = marker.index! + marker[0].length;
+    const end = index + 1 < markers.length ? markers[index + 1].index! : text.length;
+    return chunkText(text.slice(start, end), { maxChars: chunkChars, overlapChars: 0, page: parseInt(marker[1], 10) })
+      .map(chunk => ({ ...chunk, offset: chunk.offset + start }));
+  });
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+async function rerankWithEmbeddings(
+  query: string,
+  candidates: Array<{ chunk: TextChunk; score: number }>,
+  embed: EmbedFunction
+): Promise<Array<{ chunk: TextChunk; score: number }>> {
+  try {
+    const [queryVector, ...chunkVectors] = await embed([query, ...candidates.map(c => c.chunk.text)]);
+    if (!queryVector || chunkVectors.length !== candidates.length) {
+      return candidates;
+    }
+    return candidates
+      .map((candidate, index) => ({ chunk: candidate.chunk, score: cosineSimilarity(queryVector, chunkVectors[index]) }))
+      .sort((a, b) => b.score - a.score);
+  } catch (error) {
+    console.warn('Embedding re-rank failed, keeping lexical ranking:', error);
+    return candidates;
+  }
+}
+
+// Picks the chunks of a document that best match the query until the token
+// budget is spent, and returns them in document order. Short documents are
+// returned whole; documents with no lexical match fall back to their opening.
+export async function selectPassages(text: string, query: string, options: PassageOptions): Promise<SelectedPassage[]> {
+  const budgetChars = options.budgetTokens * CHARS_PER_TOKEN;
+  // Small budgets get smaller chunks so at least two passages fit
+  const chunks = chunkDocument(text, options.chunkChars || Math.min(600, Math.max(200, Math.floor(budgetChars / 2))));
+  if (chunks.length === 0) {
+    return [];
+  }
+
+  // Everything fits: one passage per page (or one for the whole text)
+  if (text.length <= budgetChars) {
+    const byPage = new Map<number | undefined, string[]>();
+    chunks.forEach(chunk => byPage.set(chunk.page, [...(byPage.get(chunk.page) || []), chunk.text]));
+    return [...byPage.entries()].map(([page, texts]) => ({ text: texts.join('\n\n'), page, score: 0 }));
+  }
+
+  const index = new BM25Index<TextChunk>();
+  chunks.forEach(chunk => index.add(chunk, chunk.text));
+  let ranked = index.search(query, chunks.length).map(hit => ({ chunk: hit.item, score: hit.score }));
+
+  if (ranked.length === 0) {
+    ranked = chunks.map(chunk => ({ chunk, score: 0 }));
+  } else if (options.embed) {
+    ranked = await rerankWithEmbeddings(query, ranked.slice(0, RERANK_CANDIDATES), options.embed);
+  }
+
+  const selected: Array<{ chunk: TextChunk; score: number }> = [];
+  let used = 0;
+  for (const candidate of ranked) {
+    if (used + candidate.chunk.text.length > budgetChars && selected.length > 0) {
+      continue;
+    }
+    selected.push(candidate);
+    used += candidate.chunk.text.length;
+  }
+
+  return selected
+    .sort((a, b) => a.chunk.offset - b.chunk.offset)
+    .map(({ chunk, score }) => ({
+      text: chunk.text.slice(0, budgetChars),
+      page: chunk.page,
+      score: Math.round(score * 1000) / 1000
+    }));
+}
+
+// Prompt rendering: passages separated by "[...]", each page-tagged when known
+export function formatPassages(passages: SelectedPassage[]): string {
+  return passages
+    .map(passage => passage.page ? `[Page ${passage.page}]\n${passage.text}` : passage.text)
+    .join('\n\n[...]\n\n');
+}
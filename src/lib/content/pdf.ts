@@ -0,0 +1,8 @@
+import { extractText, getDocumentProxy } from 'unpdf';
+
+// Returns the text of each page; index 0 is page 1
+export async function extractPdfPages(data: Uint8Array): Promise<string[]> {
+  const pdf = await getDocumentProxy(data);
+  const { text } = await extractText(pdf, { mergePages: false });
+  return text.map(page => page.replace(/[ \t]+/g, ' ').trim());
+}
@@ -0,0 +1,173 @@
+export type CitationStatus = 'verified' | 'paraphrased' | 'unverifiable';
+
+export interface CitationCheck {
+  citation: string;
+  status: CitationStatus;
+  // 0-1: word-level similarity of the best matching span in the source
+  similarity: number;
+  // Page the matching span was found on, for paged documents
+  page?: number;
+}
+
+interface SourceToken {
+  word: string;
+  page?: number;
+}
+
+// A verbatim quote may differ from the source by about one word in seven
+// (punctuation, a dropped article, OCR noise)
+const VERIFIED_SIMILARITY = 0.85;
+// Share of a citation's content words found close together in the source
+const PARAPHRASE_COVERAGE = 0.6;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'been', 'but', 'by', 'for', 'from', 'had', 'has', 'have',
+  'in', 'into', 'is', 'it', 'its', 'of', 'on', 'or', 'that', 'the', 'their', 'this', 'to', 'was',
+  'were', 'which', 'with', 'will', 'would'
+]);
+
+function toWords(text: string): string[] {
+  return text.toLowerCase().replace(/['’]/g, '').match(/[\p{L}\p{N}]+/gu) || [];
+}
+
+// Source words tagged with the page they sit on ("[Page N]" markers)
+function tokenizeSource(text: string): SourceToken[] {
+  const tokens: SourceToken[] = [];
+  let page: number | undefined;
+
+  text.split(/(\[Page \d+\])/).forEach(part => {
+    const marker = part.match(/^\[Page (\d+)\]$/);
+    if (marker) {
+      page = parseInt(marker[1], 10);
+      return;
+    }
+    toWords(part).forEach(word => tokens.push({ word, page }));
+  });
+  return tokens;
+}
+
+// The part of a citation to look for: the longest quoted span when the model
+// quoted something, otherwise the claim without its attribution and page tag
+function claimedText(citation: string): string {
+  const text = citation.replace(/\s*\(pp?\.\s*[\d–-]+\)\s*\.?$/, '');
+  const quoted = [...text.matchAll(/["“]([^"”]+)["”]/g)]
+    .map(match => match[1])
+    .sort((a, b) => b.length - a.length)[0];
+  if (quoted && toWords(quoted).length >= 4) {
+    return quoted;
+  }
+
+  // "According to X, ..." / "From X: ..."
+  return text
+    .replace(/^according to [^,]{1,80},\s*/i, '')
+    .replace(/^[^:]{1,80}:\s*/, '');
+}
+
+function editSimilarity(a: string[], b: string[]): number {
+  if (a.length === 0 || b.length === 0) {
+    return 0;
+  }
+
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return 1 - previous[b.length] / Math.max(a.length, b.length);
+}
+
+// Start of the window of `size` source words sharing the most words with the
+// claim (multiset overlap), found in one pass
+function bestWindow(source: SourceToken[], claim: string[], size: number): { start: number; overlap: number } {
+  const wanted = new Map<string, number>();
+  claim.forEach(word => wanted.set(word, (wanted.get(word) || 0) + 1));
+
+  const inWindow = new Map<string, number>();
+  let overlap = 0;
+  let best = { start: 0, overlap: 0 };
+
+  source.forEach((token, index) => {
+    const count = (inWindow.get(token.word) || 0) + 1;
+    inWindow.set(token.word, count);
+    if (count <= (wanted.get(token.word) || 0)) overlap++;
+
+    const drop = index - size;
+    if (drop >= 0) {
+      const dropped = source[drop].word;
+      const remaining = inWindow.get(dropped)! - 1;
+      inWindow.set(dropped, remaining);
+      if (remaining < (wanted.get(dropped) || 0)) overlap--;
+    }
+
+    if (overlap > best.overlap) {
+      best = { start: Math.max(0, index - size + 1), overlap };
+    }
+  });
+  return best;
+}
+
+// Page of the first word in the window that belongs to the claim
+function pageOf(source: SourceToken[], start: number, size: number, claim: string[]): number | undefined {
+  const words = new Set(claim);
+  return source.slice(start, start + size).find(token => words.has(token.word))?.page;
+}
+
+function checkAgainst(citation: string, source: SourceToken[]): CitationCheck {
+  const claim = toWords(claimedText(citation));
+  if (claim.length === 0 || source.length === 0) {
+    return { citation, status: 'unverifiable', similarity: 0 };
+  }
+
+  // Verbatim: the closest span of the claim's length, compared word by word
+  // (a couple of words either side allows for small insertions and omissions)
+  const window = bestWindow(source, claim, claim.length);
+  let similarity = 0;
+  for (let shift = -2; shift <= 2; shift++) {
+    const start = Math.max(0, window.start + shift);
+    for (let extra = -2; extra <= 2; extra++) {
+      const span = source.slice(start, start + claim.length + extra).map(token => token.word);
+      similarity = Math.max(similarity, editSimilarity(claim, span));
+    }
+  }
+  similarity = Math.round(similarity * 100) / 100;
+  const page = pageOf(source, window.start, claim.length, claim);
+
+  if (similarity >= VERIFIED_SIMILARITY) {
+    return { citation, status: 'verified', similarity, page };
+  }
+
+  // Paraphrase: most of the claim's content words within a nearby stretch of text
+  const content = [...new Set(claim.filter(word => !STOPWORDS.has(word)))];
+  if (content.length > 0) {
+    const size = Math.max(claim.length * 3, 30);
+    const nearby = bestWindow(source, content, size);
+    if (nearby.overlap / content.length >= PARAPHRASE_COVERAGE) {
+      return { citation, status: 'paraphrased', similarity, page: pageOf(source, nearby.start, size, content) };
+    }
+  }
+
+  return { citation, status: 'unverifiable', similarity };
+}
+
+// Checks each citation the model extracted against the text it was given:
+// verified when it appears (near) verbatim, paraphrased when its content words
+// appear together, unverifiable otherwise
+export function verifyCitations(citations: string[], sourceText: string): CitationCheck[] {
+  const source = tokenizeSource(sourceText);
+  return citations
+    .filter(citation => typeof citation === 'string' && citation.trim())
+    .map(citation => checkAgainst(citation, source));
+}
+
+export function summarizeCitationChecks(checks: CitationCheck[]): Record<CitationStatus, number> {
+  const counts: Record<CitationStatus, number> = { verified: 0, paraphrased: 0, unverifiable: 0 };
+  checks.forEach(check => counts[check.status]++);
+  return counts;
+}
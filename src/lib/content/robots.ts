@@ -0,0 +1,89 @@
+export const ROBOTS_USER_AGENT = 'AtlasResearcher';
+
+interface RobotsRule {
+  allow: boolean;
+  pattern: string;
+}
+
+export interface RobotsPolicy {
+  rules: RobotsRule[];
+  crawlDelayMs?: number;
+}
+
+// No robots.txt (4xx): everything is allowed
+export const ALLOW_ALL: RobotsPolicy = { rules: [] };
+// robots.txt unreachable (5xx): treat the site as off limits for now (RFC 9309)
+export const DISALLOW_ALL: RobotsPolicy = { rules: [{ allow: false, pattern: '/' }] };
+
+// "AtlasResearcher/1.0" -> "atlasresearcher"
+function productToken(userAgent: string): string {
+  return userAgent.split('/')[0].trim().toLowerCase();
+}
+
+// Picks the group whose User-agent is exactly our product token (ignoring
+// case), falling back to "*". Consecutive User-agent lines share the rules that
+// follow them.
+export function parseRobotsTxt(body: string, userAgent: string = ROBOTS_USER_AGENT): RobotsPolicy {
+  const groups: Array<{ agents: string[]; rules: RobotsRule[]; crawlDelayMs?: number }> = [];
+  let current: (typeof groups)[number] | null = null;
+  let lastWasAgent = false;
+
+  for (const rawLine of body.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator < 0) continue;
+
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === 'user-agent') {
+      if (!current || !lastWasAgent) {
+        current = { agents: [], rules: [] };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      lastWasAgent = true;
+      continue;
+    }
+
+    lastWasAgent = false;
+    if (!current) continue;
+
+    if ((field === 'allow' || field === 'disallow') && value) {
+      current.rules.push({ allow: field === 'allow', pattern: value });
+    } else if (field === 'crawl-delay') {
+      const seconds = parseFloat(value);
+      if (!isNaN(seconds) && seconds > 0) {
+        current.crawlDelayMs = seconds * 1000;
+      }
+    }
+  }
+
+  const agent = productToken(userAgent);
+  const group = groups.find(g => g.agents.some(a => productToken(a) === agent))
+    || groups.find(g => g.agents.includes('*'));
+
+  return group ? { rules: group.rules, crawlDelayMs: group.crawlDelayMs } : ALLOW_ALL;
+}
+
+function patternToRegex(pattern: string): RegExp {
+  const anchored = pattern.endsWith('$');
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .replace(/[.+?^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*/g, '.*');
+  return new RegExp(`^${body}${anchored ? '$' : ''}`);
+}
+
+// Longest matching rule wins; on a tie Allow beats Disallow
+export function isPathAllowed(policy: RobotsPolicy, pathWithQuery: string): boolean {
+  let best: RobotsRule | null = null;
+
+  for (const rule of policy.rules) {
+    if (!patternToRegex(rule.pattern).test(pathWithQuery)) continue;
+    if (!best || rule.pattern.length > best.pattern.length || (rule.pattern.length === best.pattern.length && rule.allow)) {
+      best = rule;
+    }
+  }
+
+  return best ? best.allow : true;
+}
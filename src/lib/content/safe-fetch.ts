@@ -0,0 +1,283 @@
+import axios, { AddressFamily, LookupAddress } from 'axios';
+import dns from 'dns';
+import net from 'net';
+import { Readable } from 'stream';
+import { TtlCache } from '../cache';
+import {
+  getFetchHostDelayMs,
+  getFetchMaxBytes,
+  getFetchMaxRedirects,
+  isRobotsTxtRespected
+} from '../config';
+import { RateLimiter } from '../concurrency';
+import { ALLOW_ALL, DISALLOW_ALL, isPathAllowed, parseRobotsTxt, RobotsPolicy } from './robots';
+
+const USER_AGENT = 'Mozilla/5.0 (compatible; AtlasResearcher/1.0)';
+const ROBOTS_TTL_MS = 60 * 60 * 1000;
+// Longest robots.txt Crawl-delay honored; slower sites are still fetched at this pace
+const MAX_CRAWL_DELAY_MS = 10000;
+
+// Content types the evaluator can ingest. application/octet-stream is allowed
+// because servers often send PDFs that way; the fetcher sniffs the bytes.
+const ALLOWED_CONTENT_TYPES = [
+  'text/html', 'application/xhtml+xml', 'text/plain', 'text/markdown', 'text/csv',
+  'application/json', 'application/ld+json', 'application/pdf', 'application/octet-stream',
+  'application/xml', 'text/xml', 'application/rss+xml', 'application/atom+xml'
+];
+
+const BLOCKED_RANGES = new net.BlockList();
+[
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.0.2.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15],
+  ['198.51.100.0', 24], ['203.0.113.0', 24], ['224.0.0.0', 4], ['240.0.0.0', 4]
+].forEach(([address, prefix]) => BLOCKED_RANGES.addSubnet(address as string, prefix as number, 'ipv4'));
+[
+  ['::', 128], ['::1', 128], ['fc00::', 7], ['fe80::', 10], ['fec0::', 10], ['ff00::', 8],
+  ['100::', 64], ['2001:db8::', 32]
+].forEach(([address, prefix]) => BLOCKED_RANGES.addSubnet(address as string, prefix as number, 'ipv6'));
+
+export interface SafeFetchOptions {
+  timeout?: number;
+}
+
+export interface SafeFetchResponse {
+  // Final URL after redirects
+  url: string;
+  contentType: string;
+  data: Uint8Array;
+}
+
+// Thrown when a URL is refused before or during the fetch, as opposed to a
+// network or HTTP failure
+export class FetchBlockedError extends Error {
+  constructor(url: string, reason: string) {
+    super(`Refused to fetch ${url}: ${reason}`);
+    this.name = 'FetchBlockedError';
+  }
+}
+
+const robotsCache = new TtlCache<RobotsPolicy>('robots', ROBOTS_TTL_MS);
+const hostThrottle = new RateLimiter();
+
+// The eight 16-bit groups of a valid IPv6 address, with "::" expanded and a
+// trailing dotted IPv4 part converted
+function ipv6Groups(address: string): number[] {
+  let text = address.split('%')[0];
+  const dotted = text.match(/(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+  if (dotted) {
+    const [a, b, c, d] = dotted.slice(1).map(Number);
+    text = `${text.slice(0, dotted.index)}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+
+  const [head, tail] = text.split('::');
+  const parse = (part?: string) => (part ? part.split(':').map(group => parseInt(group, 16)) : []);
+  const headGroups = parse(head);
+  const tailGroups = parse(tail);
+  const zeros = tail === undefined ? [] : new Array(8 - headGroups.length - tailGroups.length).fill(0);
+  return [...headGroups, ...zeros, ...tailGroups];
+}
+
+// The IPv4 address carried by an IPv4-compatible (::/96), mapped
+// (::ffff:0:0/96), translated (::ffff:0:0:0/96), NAT64 (64:ff9b::/96) or 6to4
+// (2002::/16) IPv6 address
+function embeddedIpv4(address: string): string | null {
+  const groups = ipv6Groups(address);
+  const toIpv4 = (high: number, low: number) => [high >> 8, high & 0xff, low >> 8, low & 0xff].join('.');
+  const zeroUntil = (end: number) => groups.slice(0, end).every(group => group === 0);
+
+  if (groups[0] === 0x2002) {
+    return toIpv4(groups[1], groups[2]);
+  }
+  if (
+    zeroUntil(6) ||
+    (zeroUntil(5) && groups[5] === 0xffff) ||
+    (zeroUntil(4) && groups[4] === 0xffff && groups[5] === 0) ||
+    (groups[0] === 0x64 && groups[1] === 0xff9b && groups.slice(2, 6).every(group => group === 0))
+  ) {
+    return toIpv4(groups[6], groups[7]);
+  }
+  return null;
+}
+
+// Loopback, private, link-local, CGNAT, multicast and documentation ranges,
+// including IPv6 addresses that carry one of the IPv4 ones
+export function isBlockedAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (family === 0) {
+    return true;
+  }
+  if (family === 4) {
+    return BLOCKED_RANGES.check(address, 'ipv4');
+  }
+
+  const ipv4 = embeddedIpv4(address);
+  if (ipv4) {
+    return BLOCKED_RANGES.check(ipv4, 'ipv4');
+  }
+  return BLOCKED_RANGES.check(address, 'ipv6');
+}
+
+// DNS lookup used for every connection, so a hostname cannot resolve to a
+// public address for the check and a private one for the request. Callback
+// style, as net.connect calls it (with all: true under autoSelectFamily).
+function safeLookup(
+  hostname: string,
+  options: dns.LookupOptions,
+  callback: (error: Error | null, address: LookupAddress | LookupAddress[], family?: AddressFamily) => void
+): void {
+  dns.lookup(hostname, { ...options, all: true }, (error, resolved) => {
+    if (error) {
+      callback(error, []);
+      return;
+    }
+
+    const addresses = resolved.map(entry => ({ address: entry.address, family: entry.family as AddressFamily }));
+    if (addresses.length === 0 || addresses.some(entry => isBlockedAddress(entry.address))) {
+      callback(new FetchBlockedError(hostname, 'resolves to a private or reserved address'), []);
+      return;
+    }
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+}
+
+function assertFetchableUrl(url: URL): void {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new FetchBlockedError(url.href, `unsupported protocol ${url.protocol}`);
+  }
+  if (url.username || url.password) {
+    throw new FetchBlockedError(url.href, 'credentials in URL');
+  }
+
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  if (net.isIP(host) && isBlockedAddress(host)) {
+    throw new FetchBlockedError(url.href, 'private or reserved address');
+  }
+  if (/^(localhost|.*\.localhost|.*\.local|.*\.internal)$/i.test(host)) {
+    throw new FetchBlockedError(url.href, 'internal hostname');
+  }
+}
+
+async function readCapped(stream: Readable, maxBytes: number, url: string): Promise<Uint8Array> {
+  const chunks: Buffer[] = [];
+  let total = 0;
+
+  for await (const chunk of stream) {
+    total += chunk.length;
+    if (total > maxBytes) {
+      stream.destroy();
+      throw new FetchBlockedError(url, `response larger than ${maxBytes} bytes`);
+    }
+    chunks.push(chunk);
+  }
+  return new Uint8Array(Buffer.concat(chunks));
+}
+
+// One request, no redirect following; the caller validates each hop
+async function requestOnce(url: URL, timeout: number) {
+  return axios.get<Readable>(url.href, {
+    timeout,
+    responseType: 'stream',
+    maxRedirects: 0,
+    validateStatus: () => true,
+    lookup: safeLookup,
+    headers: {
+      'User-Agent': USER_AGENT
+    }
+  });
+}
+
+// Up to five redirects are followed for robots.txt (RFC 9309)
+const MAX_ROBOTS_REDIRECTS = 5;
+
+async function fetchRobotsPolicy(origin: string, timeout: number): Promise<RobotsPolicy> {
+  // An unreachable robots.txt is not cached, so it blocks the site only until
+  // the next attempt
+  return robotsCache.getOrLoad(origin, async () => {
+    try {
+      let url = new URL('/robots.txt', origin);
+      for (let redirects = 0; ; redirects++) {
+        const response = await requestOnce(url, timeout);
+        if (response.status >= 300 && response.status < 400 && response.headers.location) {
+          response.data.destroy();
+          if (redirects >= MAX_ROBOTS_REDIRECTS) {
+            return ALLOW_ALL;
+          }
+          url = new URL(String(response.headers.location), url);
+          assertFetchableUrl(url);
+          continue;
+        }
+        if (response.status >= 300) {
+          response.data.destroy();
+          // 4xx (and redirects without a target) mean there is no robots.txt
+          return response.status >= 500 ? DISALLOW_ALL : ALLOW_ALL;
+        }
+        const body = Buffer.from(await readCapped(response.data, 512 * 1024, origin)).toString('utf-8');
+        return parseRobotsTxt(body);
+      }
+    } catch (error) {
+      if (error instanceof FetchBlockedError) throw error;
+      return DISALLOW_ALL;
+    }
+  }, undefined, policy => policy !== DISALLOW_ALL);
+}
+
+// Fetches a public web resource: refuses private and reserved addresses
+// (checked on every connection, redirects included), caps body size and
+// redirects, accepts only ingestible content types, honors robots.txt and
+// spaces requests to the same host.
+export async function safeFetch(rawUrl: string, options: SafeFetchOptions = {}): Promise<SafeFetchResponse> {
+  const timeout = options.timeout || 10000;
+  const maxRedirects = getFetchMaxRedirects();
+  let url = new URL(rawUrl);
+
+  for (let redirects = 0; ; redirects++) {
+    assertFetchableUrl(url);
+
+    const policy = isRobotsTxtRespected() ? await fetchRobotsPolicy(url.origin, timeout) : ALLOW_ALL;
+    if (!isPathAllowed(policy, `${url.pathname}${url.search}`)) {
+      throw new FetchBlockedError(url.href, 'disallowed by robots.txt');
+    }
+
+    const delay = Math.min(Math.max(getFetchHostDelayMs(), policy.crawlDelayMs || 0), MAX_CRAWL_DELAY_MS);
+    const currentUrl = url;
+    const response = await hostThrottle.scheduleEvery(url.host, delay, () => requestOnce(currentUrl, timeout));
+
+    if (response.status >= 300 && response.status < 400 && response.headers.location) {
+      response.data.destroy();
+      if (redirects >= maxRedirects) {
+        throw new FetchBlockedError(rawUrl, `more than ${maxRedirects} redirects`);
+      }
+      url = new URL(String(response.headers.location), url);
+      continue;
+    }
+
+    if (response.status >= 400) {
+      response.data.destroy();
+      throw new Error(`HTTP ${response.status} fetching ${url.href}`);
+    }
+
+    const contentType = String(response.headers['content-type'] || 'text/html');
+    const mimeType = contentType.split(';')[0].trim().toLowerCase();
+    if (!ALLOWED_CONTENT_TYPES.includes(mimeType)) {
+      response.data.destroy();
+      throw new FetchBlockedError(url.href, `content type ${mimeType} is not supported`);
+    }
+
+    const declaredLength = parseInt(String(response.headers['content-length'] || ''), 10);
+    const maxBytes = getFetchMaxBytes();
+    if (declaredLength > maxBytes) {
+      response.data.destroy();
+      throw new FetchBlockedError(url.href, `response larger than ${maxBytes} bytes`);
+    }
+
+    return {
+      url: url.href,
+      contentType,
+      data: await readCapped(response.data, maxBytes, url.href)
+    };
+  }
+}
@@ -0,0 +1,81 @@
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'from', 'has', 'have',
+  'in', 'into', 'is', 'it', 'its', 'of', 'on', 'or', 'that', 'the', 'their', 'this',
+  'to', 'was', 'were', 'what', 'which', 'with', 'about', 'how', 'why', 'when', 'who'
+]);
+
+export function tokenize(text: string): string[] {
+  return text.toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(token => token.length > 1 && !STOP_WORDS.has(token));
+}
+
+export interface BM25Hit<T> {
+  item: T;
+  score: number;
+}
+
+// Okapi BM25 over an in-memory collection of text items
+export class BM25Index<T> {
+  private items: T[] = [];
+  private termFrequencies: Array<Map<string, number>> = [];
+  private lengths: number[] = [];
+  private documentFrequency = new Map<string, number>();
+  private totalLength = 0;
+  private k1: number;
+  private b: number;
+
+  constructor(k1: number = 1.2, b: number = 0.75) {
+    this.k1 = k1;
+    this.b = b;
+  }
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  add(item: T, text: string): void {
+    const frequencies = new Map<string, number>();
+    const tokens = tokenize(text);
+    tokens.forEach(token => frequencies.set(token, (frequencies.get(token) || 0) + 1));
+    frequencies.forEach((_, token) => {
+      this.documentFrequency.set(token, (this.documentFrequency.get(token) || 0) + 1);
+    });
+
+    this.items.push(item);
+    this.termFrequencies.push(frequencies);
+    this.lengths.push(tokens.length);
+    this.totalLength += tokens.length;
+  }
+
+  search(query: string, limit: number = 10): BM25Hit<T>[] {
+    const queryTerms = [...new Set(tokenize(query))];
+    if (queryTerms.length === 0 || this.items.length === 0) {
+      return [];
+    }
+
+    const averageLength = this.totalLength / this.items.length || 1;
+    const hits: BM25Hit<T>[] = [];
+
+    this.items.forEach((item, index) => {
+      const frequencies = this.termFrequencies[index];
+      let score = 0;
+
+      for (const term of queryTerms) {
+        const tf = frequencies.get(term);
+        if (!tf) continue;
+
+        const df = this.documentFrequency.get(term) || 0;
+        const idf = Math.log(1 + (this.items.length - df + 0.5) / (df + 0.5));
+        const norm = tf + this.k1 * (1 - this.b + this.b * this.lengths[index] / averageLength);
+        score += idf * (tf * (this.k1 + 1)) / norm;
+      }
+
+      if (score > 0) {
+        hits.push({ item, score });
+      }
+    });
+
+    return hits.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+}
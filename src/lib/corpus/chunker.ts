@@ -0,0 +1,51 @@
+export interface TextChunk {
+  text: string;
+  offset: number;
+  page?: number;
+}
+
+export interface ChunkOptions {
+  maxChars?: number;
+  overlapChars?: number;
+  page?: number;
+}
+
+// Splits text on paragraph boundaries into chunks of roughly maxChars.
+// Each chunk repeats the tail of the previous one so sentences that straddle
+// a boundary stay searchable. Offsets point at the chunk's first new paragraph.
+export function chunkText(text: string, options: ChunkOptions = {}): TextChunk[] {
+  const maxChars = options.maxChars || 1200;
+  const overlapChars = options.overlapChars ?? 200;
+  const chunks: TextChunk[] = [];
+
+  const pieces: Array<{ text: string; offset: number }> = [];
+  const paragraphRegex = /\S[\s\S]*?(?=\n\s*\n|$)/g;
+  let match: RegExpExecArray | null;
+  while ((match = paragraphRegex.exec(text)) !== null) {
+    const paragraph = match[0].trim();
+    // Hard-split paragraphs that are longer than a chunk on their own
+    for (let i = 0; i < paragraph.length; i += maxChars) {
+      pieces.push({ text: paragraph.slice(i, i + maxChars), offset: match.index + i });
+    }
+  }
+
+  let current = '';
+  let currentOffset = 0;
+
+  for (const piece of pieces) {
+    if (current && current.length + piece.text.length + 2 > maxChars) {
+      chunks.push({ text: current, offset: currentOffset, page: options.page });
+      current = overlapChars > 0 ? current.slice(-overlapChars) : '';
+      currentOffset = piece.offset;
+    } else if (!current) {
+      currentOffset = piece.offset;
+    }
+    current = current ? `${current}\n\n${piece.text}` : piece.text;
+  }
+
+  if (current) {
+    chunks.push({ text: current, offset: currentOffset, page: options.page });
+  }
+
+  return chunks;
+}
@@ -0,0 +1,198 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+import { getLocalCorpusDir } from '../config';
+import { stripTags } from '../content/markup';
+import { extractPdfPages } from '../content/pdf';
+import { BM25Index } from './bm25';
+import { chunkText, TextChunk } from './chunker';
+
+const SUPPORTED_EXTENSIONS = ['.md', '.markdown', '.txt', '.html', '.htm', '.pdf'];
+const MAX_FILE_BYTES = 20 * 1024 * 1024;
+const REFRESH_INTERVAL_MS = 5 * 60 * 1000;
+
+export interface CorpusDocument {
+  path: string;
+  url: string;
+  title: string;
+  contentType: string;
+  text: string;
+  pages?: string[];
+}
+
+export interface CorpusChunk extends TextChunk {
+  document: CorpusDocument;
+}
+
+export interface CorpusHit {
+  document: CorpusDocument;
+  chunk: CorpusChunk;
+  score: number;
+}
+
+function contentTypeFor(extension: string): string {
+  switch (extension) {
+    case '.pdf': return 'application/pdf';
+    case '.html':
+    case '.htm': return 'text/html';
+    case '.md':
+    case '.markdown': return 'text/markdown';
+    default: return 'text/plain';
+  }
+}
+
+// Searches a folder of Markdown, text, HTML and PDF files with BM25 over chunks
+export class LocalCorpus {
+  readonly root: string;
+  private documents = new Map<string, CorpusDocument>();
+  private index = new BM25Index<CorpusChunk>();
+  private builtAt = 0;
+  private building: Promise<void> | null = null;
+
+  constructor(root: string) {
+    this.root = path.resolve(root);
+  }
+
+  async search(query: string, limit: number = 5): Promise<CorpusHit[]> {
+    await this.ensureIndex();
+
+    // Rank chunks, then keep the best chunk per document
+    const best = new Map<string, CorpusHit>();
+    for (const hit of this.index.search(query, limit * 10)) {
+      const key = hit.item.document.path;
+      if (!best.has(key)) {
+        best.set(key, { document: hit.item.document, chunk: hit.item, score: hit.score });
+      }
+    }
+
+    return Array.from(best.values()).slice(0, limit);
+  }
+
+  // Resolves a file:// URL to a corpus document; anything outside the root is rejected
+  async readDocument(fileUrl: string): Promise<CorpusDocument> {
+    const filePath = path.resolve(fileURLToPath(fileUrl.split('#')[0]));
+    if (filePath !== this.root && !filePath.startsWith(this.root + path.sep)) {
+      throw new Error(`File is outside the local corpus: ${fileUrl}`);
+    }
+
+    await this.ensureIndex();
+    const cached = this.documents.get(filePath);
+    if (cached) {
+      return cached;
+    }
+
+    const document = await this.loadDocument(filePath);
+    if (!document) {
+      throw new Error(`Unsupported or unreadable corpus file: ${fileUrl}`);
+    }
+    return document;
+  }
+
+  async rebuild(): Promise<void> {
+    const documents = new Map<string, CorpusDocument>();
+    const index = new BM25Index<CorpusChunk>();
+
+    for (const filePath of await this.listFiles(this.root)) {
+      const document = await this.loadDocument(filePath);
+      if (!document) continue;
+
+      documents.set(filePath, document);
+      const chunks = document.pages
+        ? document.pages.flatMap((page, i) => chunkText(page, { page: i + 1 }))
+        : chunkText(document.text);
+      chunks.forEach(chunk => index.add({ ...chunk, document }, `${document.title}\n${chunk.text}`));
+    }
+
+    this.documents = documents;
+    this.index = index;
+    this.builtAt = Date.now();
+    console.log(`Indexed ${documents.size} local documents (${index.size} chunks) from ${this.root}`);
+  }
+
+  private async ensureIndex(): Promise<void> {
+    if (this.builtAt && Date.now() - this.builtAt < REFRESH_INTERVAL_MS) {
+      return;
+    }
+    if (!this.building) {
+      this.building = this.rebuild().finally(() => {
+        this.building = null;
+      });
+    }
+    await this.building;
+  }
+
+  private async listFiles(dir: string): Promise<string[]> {
+    const entries = await fs.readdir(dir, { withFileTypes: true });
+    const files: string[] = [];
+
+    for (const entry of entries) {
+      if (entry.name.startsWith('.')) continue;
+
+      const fullPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        files.push(...await this.listFiles(fullPath));
+      } else if (entry.isFile() && SUPPORTED_EXTENSIONS.includes(path.extname(entry.name).toLowerCase())) {
+        files.push(fullPath);
+      }
+    }
+
+    return files;
+  }
+
+  private async loadDocument(filePath: string): Promise<CorpusDocument | null> {
+    const extension = path.extname(filePath).toLowerCase();
+    if (!SUPPORTED_EXTENSIONS.includes(extension)) {
+      return null;
+    }
+
+    try {
+      const stat = await fs.stat(filePath);
+      if (!stat.isFile() || stat.size > MAX_FILE_BYTES) {
+        return null;
+      }
+
+      const fallbackTitle = path.basename(filePath, extension).replace(/[-_]+/g, ' ');
+      const url = pathToFileURL(filePath).href;
+      const contentType = contentTypeFor(extension);
+
+      if (extension === '.pdf') {
+        const pages = await extractPdfPages(new Uint8Array(await fs.readFile(filePath)));
+        return { path: filePath, url, title: fallbackTitle, contentType, text: pages.join('\n\n'), pages };
+      }
+
+      const raw = await fs.readFile(filePath, 'utf-8');
+
+      if (contentType === 'text/html') {
+        const titleMatch = raw.match(/<title[^>]*>([\s\S]*?)<\/title>/i);
+        const text = raw
+          .replace(/<(head|script|style|noscript)\b[^>]*>[\s\S]*?<\/\1>/gi, '')
+          .replace(/<\/(p|div|h[1-6]|li|tr|section|article|br)>/gi, '\n\n')
+          .split(/\n\s*\n/)
+          .map(stripTags)
+          .filter(paragraph => paragraph.length > 0)
+          .join('\n\n');
+        return { path: filePath, url, title: titleMatch ? stripTags(titleMatch[1]) : fallbackTitle, contentType, text };
+      }
+
+      const headingMatch = contentType === 'text/markdown' ? raw.match(/^#\s+(.+)$/m) : null;
+      return { path: filePath, url, title: headingMatch ? headingMatch[1].trim() : fallbackTitle, contentType, text: raw };
+    } catch (error) {
+      console.warn(`Failed to load corpus file ${filePath}:`, error);
+      return null;
+    }
+  }
+}
+
+let sharedCorpus: LocalCorpus | null = null;
+
+// Corpus for LOCAL_CORPUS_DIR, or null when no corpus is configured
+export function getLocalCorpus(): LocalCorpus | null {
+  const dir = getLocalCorpusDir();
+  if (!dir) {
+    return null;
+  }
+  if (!sharedCorpus || sharedCorpus.root !== path.resolve(dir)) {
+    sharedCorpus = new LocalCorpus(dir);
+  }
+  return sharedCorpus;
+}
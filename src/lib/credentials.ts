@@ -0,0 +1,229 @@
+import axios from 'axios';
+import { getAuthFailureCooldownMs, getPooledApiKeys, getRateLimitCooldownMs } from './config';
+
+// Statuses that say "this key cannot be used right now" rather than "this request failed"
+const KEY_FAILURE_STATUSES = [401, 402, 429];
+
+export interface QuotaInfo {
+  remaining?: number;
+  limit?: number;
+  resetAt?: number;
+  tokens?: number;
+}
+
+interface CredentialState {
+  key: string;
+  requests: number;
+  failures: number;
+  tokens: number;
+  remaining?: number;
+  limit?: number;
+  resetAt?: number;
+  cooldownUntil?: number;
+  lastStatus?: number;
+  lastUsedAt?: number;
+}
+
+export interface CredentialStatus {
+  key: string;
+  available: boolean;
+  requests: number;
+  failures: number;
+  tokens: number;
+  remaining?: number;
+  limit?: number;
+  resetAt?: string;
+  cooldownUntil?: string;
+  lastStatus?: number;
+  lastUsedAt?: string;
+}
+
+export interface CredentialPoolStatus {
+  name: string;
+  size: number;
+  available: number;
+  keys: CredentialStatus[];
+}
+
+// Thrown when every key in a pool is cooling down or out of quota
+export class CredentialsUnavailableError extends Error {
+  constructor(poolName: string) {
+    super(`No available ${poolName} key (all keys are cooling down or out of quota)`);
+    this.name = 'CredentialsUnavailableError';
+  }
+}
+
+// Only the last four characters are ever shown
+export function maskKey(key: string): string {
+  return key.length <= 8 ? '****' : `…${key.slice(-4)}`;
+}
+
+function readHeaderNumber(headers: Record<string, unknown>, name: string): number | undefined {
+  const value = parseFloat(String(headers[name] ?? ''));
+  return isNaN(value) ? undefined : value;
+}
+
+// Reads the common x-ratelimit-* response headers; reset may be epoch seconds,
+// epoch milliseconds or seconds from now depending on the API
+export function readRateLimitHeaders(headers: Record<string, unknown> | undefined): QuotaInfo {
+  if (!headers) {
+    return {};
+  }
+
+  const reset = readHeaderNumber(headers, 'x-ratelimit-reset');
+  let resetAt: number | undefined;
+  if (reset !== undefined) {
+    if (reset > 1e12) {
+      resetAt = reset;
+    } else if (reset > 1e9) {
+      resetAt = reset * 1000;
+    } else {
+      resetAt = Date.now() + reset * 1000;
+    }
+  }
+
+  return {
+    remaining: readHeaderNumber(headers, 'x-ratelimit-remaining'),
+    limit: readHeaderNumber(headers, 'x-ratelimit-limit'),
+    resetAt
+  };
+}
+
+// Rotates requests across any number of API keys for one provider. Keys that
+// answer 401, 402 or 429 are skipped until their cooldown expires, and keys
+// reporting zero remaining quota are skipped until the quota resets.
+export class CredentialPool {
+  readonly name: string;
+  private credentials: CredentialState[];
+  private cursor = 0;
+
+  constructor(name: string, keys: string[]) {
+    this.name = name;
+    this.credentials = keys.map(key => ({ key, requests: 0, failures: 0, tokens: 0 }));
+  }
+
+  get size(): number {
+    return this.credentials.length;
+  }
+
+  private isAvailable(credential: CredentialState, now: number): boolean {
+    if (credential.cooldownUntil && credential.cooldownUntil > now) {
+      return false;
+    }
+    if (credential.remaining === 0 && credential.resetAt && credential.resetAt > now) {
+      return false;
+    }
+    return true;
+  }
+
+  // Next available key in round-robin order, skipping any already tried
+  private acquire(exclude: Set<CredentialState>): CredentialState | null {
+    const now = Date.now();
+    for (let offset = 0; offset < this.credentials.length; offset++) {
+      const index = (this.cursor + offset) % this.credentials.length;
+      const credential = this.credentials[index];
+      if (!exclude.has(credential) && this.isAvailable(credential, now)) {
+        this.cursor = (index + 1) % this.credentials.length;
+        return credential;
+      }
+    }
+    return null;
+  }
+
+  private recordSuccess(credential: CredentialState, quota: QuotaInfo): void {
+    credential.lastStatus = 200;
+    credential.cooldownUntil = undefined;
+    credential.tokens += quota.tokens || 0;
+    if (quota.remaining !== undefined) credential.remaining = quota.remaining;
+    if (quota.limit !== undefined) credential.limit = quota.limit;
+    if (quota.resetAt !== undefined) credential.resetAt = quota.resetAt;
+  }
+
+  private recordFailure(credential: CredentialState, status: number | undefined, retryAfterMs?: number): void {
+    credential.failures++;
+    credential.lastStatus = status;
+
+    if (status === 429) {
+      credential.cooldownUntil = Date.now() + (retryAfterMs || getRateLimitCooldownMs());
+    } else if (status === 401 || status === 402) {
+      credential.cooldownUntil = Date.now() + getAuthFailureCooldownMs();
+      if (status === 402) {
+        credential.remaining = 0;
+      }
+    }
+  }
+
+  // Runs `task` with a key from the pool. Key-level failures (401/402/429) move
+  // on to the next key; any other error is returned to the caller unchanged.
+  async use<T>(task: (key: string) => Promise<T>, readQuota?: (result: T) => QuotaInfo): Promise<T> {
+    const tried = new Set<CredentialState>();
+    let lastError: unknown;
+
+    for (let credential = this.acquire(tried); credential; credential = this.acquire(tried)) {
+      tried.add(credential);
+      credential.requests++;
+      credential.lastUsedAt = Date.now();
+
+      try {
+        const result = await task(credential.key);
+        this.recordSuccess(credential, readQuota ? readQuota(result) : {});
+        return result;
+      } catch (error) {
+        const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+        const retryAfter = axios.isAxiosError(error)
+          ? parseFloat(String(error.response?.headers?.['retry-after'] ?? ''))
+          : NaN;
+        this.recordFailure(credential, status, isNaN(retryAfter) ? undefined : retryAfter * 1000);
+
+        if (status === undefined || !KEY_FAILURE_STATUSES.includes(status)) {
+          throw error;
+        }
+        console.warn(`${this.name} key ${maskKey(credential.key)} returned ${status}, rotating to the next key`);
+        lastError = error;
+      }
+    }
+
+    throw lastError || new CredentialsUnavailableError(this.name);
+  }
+
+  getStatus(): CredentialPoolStatus {
+    const now = Date.now();
+    const toIso = (time?: number) => time ? new Date(time).toISOString() : undefined;
+    const keys = this.credentials.map(credential => ({
+      key: maskKey(credential.key),
+      available: this.isAvailable(credential, now),
+      requests: credential.requests,
+      failures: credential.failures,
+      tokens: credential.tokens,
+      remaining: credential.remaining,
+      limit: credential.limit,
+      resetAt: toIso(credential.resetAt),
+      cooldownUntil: credential.cooldownUntil && credential.cooldownUntil > now ? toIso(credential.cooldownUntil) : undefined,
+      lastStatus: credential.lastStatus,
+      lastUsedAt: toIso(credential.lastUsedAt)
+    }));
+
+    return {
+      name: this.name,
+      size: keys.length,
+      available: keys.filter(k => k.available).length,
+      keys
+    };
+  }
+}
+
+const pools = new Map<string, CredentialPool>();
+
+// One shared pool per key environment variable, e.g. "TAVILY_API_KEY"
+export function getCredentialPool(envName: string): CredentialPool {
+  let pool = pools.get(envName);
+  if (!pool) {
+    pool = new CredentialPool(envName, getPooledApiKeys(envName));
+    pools.set(envName, pool);
+  }
+  return pool;
+}
+
+export function listCredentialPools(): CredentialPoolStatus[] {
+  return [...pools.values()].map(pool => pool.getStatus());
+}
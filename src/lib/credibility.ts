@@ -0,0 +1,252 @@
+import fs from 'fs';
+import { getCredibilityProfilesFile, getDefaultCredibilityProfileId } from './config';
+import { hostMatchesDomain } from './search/filters';
+import { AcademicMetadata } from './search/types';
+
+export interface CredibilityTier {
+  score: number;
+  // Registrable domains; subdomains match too (nih.gov covers www.ncbi.nlm.nih.gov)
+  domains: string[];
+}
+
+export interface CredibilityTldRule {
+  // Domain suffix without the leading dot, e.g. "edu" or "ac.uk"
+  suffix: string;
+  score: number;
+}
+
+export interface CredibilityOverride {
+  domain: string;
+  score: number;
+  // Why the team trusts or distrusts this site, shown with the score
+  note?: string;
+}
+
+export interface CredibilityProfile {
+  id: string;
+  description?: string;
+  // Overrides win over everything else, including the model's own score
+  overrides: CredibilityOverride[];
+  tiers: CredibilityTier[];
+  tldRules: CredibilityTldRule[];
+  defaultScore: number;
+}
+
+export type CredibilityRuleKind = 'override' | 'peer-reviewed' | 'tier' | 'tld' | 'default';
+
+export interface CredibilityAssessment {
+  score: number;
+  profile: string;
+  kind: CredibilityRuleKind;
+  // Human-readable rule, e.g. "tier 9: nature.com" or "tld .edu"
+  rule: string;
+}
+
+// Profile entries as written in CREDIBILITY_PROFILES_FILE; "extends" copies
+// another profile's rules and puts this profile's rules in front of them
+interface CredibilityProfileEntry extends Partial<Omit<CredibilityProfile, 'id'>> {
+  id: string;
+  extends?: string;
+}
+
+export const DEFAULT_CREDIBILITY_PROFILE: CredibilityProfile = {
+  id: 'default',
+  description: 'Built-in domain tiers for general research',
+  overrides: [],
+  tiers: [
+    {
+      score: 9,
+      domains: [
+        'nature.com', 'science.org', 'cell.com', 'nejm.org',
+        'ieee.org', 'acm.org', 'arxiv.org', 'pubmed.ncbi.nlm.nih.gov',
+        'who.int', 'cdc.gov', 'nih.gov', 'gov.uk', 'europa.eu',
+        'reuters.com', 'ap.org', 'apnews.com', 'bbc.com', 'bbc.co.uk', 'npr.org'
+      ]
+    },
+    {
+      score: 7,
+      domains: [
+        'wikipedia.org', 'britannica.com', 'economist.com',
+        'wsj.com', 'ft.com', 'bloomberg.com', 'harvard.edu',
+        'mit.edu', 'stanford.edu', 'ox.ac.uk', 'cam.ac.uk'
+      ]
+    }
+  ],
+  tldRules: [
+    { suffix: 'edu', score: 6 },
+    { suffix: 'gov', score: 6 },
+    { suffix: 'mil', score: 6 },
+    { suffix: 'int', score: 6 },
+    { suffix: 'ac.uk', score: 6 },
+    { suffix: 'edu.au', score: 6 },
+    { suffix: 'gov.au', score: 6 },
+    { suffix: 'org', score: 6 },
+    { suffix: 'com', score: 5 }
+  ],
+  defaultScore: 4
+};
+
+function clampScore(value: unknown, fallback: number): number {
+  const score = typeof value === 'number' ? value : parseFloat(String(value));
+  return isNaN(score) ? fallback : Math.max(0, Math.min(10, score));
+}
+
+function normalizeDomain(domain: unknown): string {
+  return String(domain || '').trim().toLowerCase().replace(/^\*?\./, '').replace(/^www\./, '');
+}
+
+function resolveProfile(
+  entry: CredibilityProfileEntry,
+  entries: Map<string, CredibilityProfileEntry>,
+  resolved: Map<string, CredibilityProfile>,
+  resolving: Set<string> = new Set()
+): CredibilityProfile {
+  const cached = resolved.get(entry.id);
+  if (cached) {
+    return cached;
+  }
+  if (resolving.has(entry.id)) {
+    throw new Error(`Credibility profile "${entry.id}" extends itself`);
+  }
+  resolving.add(entry.id);
+
+  const parentId = entry.extends;
+  // A "default" profile in the file may extend the built-in one
+  const parentEntry = parentId && parentId !== entry.id ? entries.get(parentId) : undefined;
+  if (parentId && !parentEntry && parentId !== 'default') {
+    throw new Error(`Credibility profile "${entry.id}" extends unknown profile "${parentId}"`);
+  }
+  const parent = parentEntry
+    ? resolveProfile(parentEntry, entries, resolved, resolving)
+    : parentId === 'default' ? DEFAULT_CREDIBILITY_PROFILE : undefined;
+
+  const profile: CredibilityProfile = {
+    id: entry.id,
+    description: entry.description,
+    overrides: [
+      ...(Array.isArray(entry.overrides) ? entry.overrides : [])
+        .map(override => ({
+          domain: normalizeDomain(override.domain),
+          score: clampScore(override.score, 5),
+          note: override.note ? String(override.note) : undefined
+        }))
+        .filter(override => override.domain),
+      ...(parent?.overrides || [])
+    ],
+    tiers: [
+      ...(Array.isArray(entry.tiers) ? entry.tiers : [])
+        .map(tier => ({
+          score: clampScore(tier.score, 5),
+          domains: (Array.isArray(tier.domains) ? tier.domains : []).map(normalizeDomain).filter(Boolean)
+        }))
+        .filter(tier => tier.domains.length > 0),
+      ...(parent?.tiers || [])
+    ],
+    tldRules: [
+      ...(Array.isArray(entry.tldRules) ? entry.tldRules : [])
+        .map(rule => ({ suffix: normalizeDomain(rule.suffix), score: clampScore(rule.score, 5) }))
+        .filter(rule => rule.suffix),
+      ...(parent?.tldRules || [])
+    ],
+    defaultScore: clampScore(entry.defaultScore, parent?.defaultScore ?? DEFAULT_CREDIBILITY_PROFILE.defaultScore)
+  };
+
+  resolved.set(profile.id, profile);
+  return profile;
+}
+
+// Reads CREDIBILITY_PROFILES_FILE: either an array of profiles or
+// { "profiles": [...] }. A profile named "default" replaces the built-in one.
+function loadCredibilityProfiles(): Map<string, CredibilityProfile> {
+  const profiles = new Map<string, CredibilityProfile>([['default', DEFAULT_CREDIBILITY_PROFILE]]);
+  const file = getCredibilityProfilesFile();
+  if (!file) {
+    return profiles;
+  }
+
+  try {
+    const data = JSON.parse(fs.readFileSync(file, 'utf-8'));
+    const list: unknown[] = Array.isArray(data) ? data : Array.isArray(data?.profiles) ? data.profiles : [];
+    const entries = new Map<string, CredibilityProfileEntry>();
+    list.forEach(item => {
+      const entry = item as CredibilityProfileEntry;
+      if (entry && typeof entry.id === 'string' && entry.id.trim()) {
+        entries.set(entry.id.trim(), { ...entry, id: entry.id.trim() });
+      }
+    });
+
+    const resolved = new Map<string, CredibilityProfile>();
+    entries.forEach(entry => {
+      try {
+        profiles.set(entry.id, resolveProfile(entry, entries, resolved));
+      } catch (error) {
+        console.warn(`Skipping credibility profile "${entry.id}":`, error instanceof Error ? error.message : error);
+      }
+    });
+  } catch (error) {
+    console.error(`Failed to load credibility profiles from ${file}:`, error);
+  }
+  return profiles;
+}
+
+let credibilityProfiles: Map<string, CredibilityProfile> | null = null;
+
+function getProfiles(): Map<string, CredibilityProfile> {
+  if (!credibilityProfiles) {
+    credibilityProfiles = loadCredibilityProfiles();
+  }
+  return credibilityProfiles;
+}
+
+// The named profile, the configured default when no name is given, or null
+// for an unknown name
+export function getCredibilityProfile(id?: string): CredibilityProfile | null {
+  const profiles = getProfiles();
+  if (id) {
+    return profiles.get(id) || null;
+  }
+  return profiles.get(getDefaultCredibilityProfileId()) || DEFAULT_CREDIBILITY_PROFILE;
+}
+
+export function listCredibilityProfiles(): Array<{ id: string; description?: string }> {
+  return [...getProfiles().values()].map(profile => ({ id: profile.id, description: profile.description }));
+}
+
+// Scores a source by the first rule that applies: team overrides, then
+// peer-reviewed records, then domain tiers, then domain suffixes (longest
+// first), then the profile's default
+export function assessCredibility(
+  profile: CredibilityProfile,
+  url: string,
+  academic?: AcademicMetadata
+): CredibilityAssessment {
+  const assessment = (kind: CredibilityRuleKind, score: number, rule: string): CredibilityAssessment =>
+    ({ score, profile: profile.id, kind, rule });
+
+  const override = profile.overrides.find(entry => hostMatchesDomain(url, entry.domain));
+  if (override) {
+    return assessment('override', override.score, `override ${override.domain}${override.note ? ` (${override.note})` : ''}`);
+  }
+
+  if (academic?.peerReviewed) {
+    return assessment('peer-reviewed', 9, 'peer-reviewed record');
+  }
+
+  // Most specific domain first, so a tiered subdomain beats its parent
+  const tierMatch = profile.tiers
+    .flatMap(tier => tier.domains.map(domain => ({ domain, score: tier.score })))
+    .filter(entry => hostMatchesDomain(url, entry.domain))
+    .sort((a, b) => b.domain.length - a.domain.length)[0];
+  if (tierMatch) {
+    return assessment('tier', tierMatch.score, `tier ${tierMatch.score}: ${tierMatch.domain}`);
+  }
+
+  const tldMatch = profile.tldRules
+    .filter(rule => hostMatchesDomain(url, rule.suffix))
+    .sort((a, b) => b.suffix.length - a.suffix.length)[0];
+  if (tldMatch) {
+    return assessment('tld', tldMatch.score, `tld .${tldMatch.suffix}`);
+  }
+
+  return assessment('default', profile.defaultScore, 'default');
+}
@@ -0,0 +1,87 @@
+import { hostMatchesDomain } from './search/filters';
+import { AcademicMetadata } from './search/types';
+
+export const SOURCE_TYPES = [
+  'primary-research', 'review', 'government', 'news', 'opinion', 'vendor', 'reference', 'other'
+] as const;
+export type SourceType = typeof SOURCE_TYPES[number];
+
+// Relative to the research question
+export const SOURCE_STANCES = ['supports', 'opposes', 'mixed', 'neutral'] as const;
+export type SourceStance = typeof SOURCE_STANCES[number];
+
+export interface EvidenceMix {
+  subtopic: string;
+  sourceCount: number;
+  types: Partial<Record<SourceType, number>>;
+  stances: Partial<Record<SourceStance, number>>;
+  // e.g. "all 4 sources are vendor"; empty when the evidence looks balanced
+  warnings: string[];
+}
+
+// Fewer sources than this are too few to call one-sided
+const MIN_SOURCES_FOR_BALANCE = 2;
+
+const GOVERNMENT_SUFFIXES = ['gov', 'mil', 'gov.uk', 'gov.au', 'gc.ca', 'europa.eu', 'int'];
+
+// The model's classification, filled in where it has none: unclassified
+// scholarly records count as research and unclassified government domains as
+// government sources. Journals also publish editorials and guidelines, so a
+// specific answer from the model is kept.
+export function classifySourceType(modelType: SourceType | undefined, url: string, academic?: AcademicMetadata): SourceType {
+  if (modelType && modelType !== 'other') {
+    return modelType;
+  }
+  if (academic) {
+    return 'primary-research';
+  }
+  if (GOVERNMENT_SUFFIXES.some(suffix => hostMatchesDomain(url, suffix))) {
+    return 'government';
+  }
+  return 'other';
+}
+
+function count<T extends string>(values: Array<T | undefined>): Partial<Record<T, number>> {
+  const counts: Partial<Record<T, number>> = {};
+  values.forEach(value => {
+    if (value) counts[value] = (counts[value] || 0) + 1;
+  });
+  return counts;
+}
+
+export function summarizeEvidenceMix(
+  subtopic: string,
+  contents: Array<{ sourceType?: SourceType; stance?: SourceStance }>
+): EvidenceMix {
+  const types = count(contents.map(content => content.sourceType));
+  const stances = count(contents.map(content => content.stance));
+  const warnings: string[] = [];
+
+  const typed = Object.entries(types) as Array<[SourceType, number]>;
+  const typedCount = typed.reduce((sum, [, number]) => sum + number, 0);
+  if (typedCount >= MIN_SOURCES_FOR_BALANCE && typed.length === 1 && typed[0][0] !== 'other') {
+    warnings.push(`all ${typedCount} sources are ${typed[0][0]}`);
+  }
+
+  // One-sided when every source that takes a position takes the same one
+  const supports = stances.supports || 0;
+  const opposes = stances.opposes || 0;
+  const mixed = stances.mixed || 0;
+  if (supports + opposes >= MIN_SOURCES_FOR_BALANCE && mixed === 0 && (supports === 0 || opposes === 0)) {
+    warnings.push(`every source that takes a position ${supports > 0 ? 'supports' : 'opposes'} it`);
+  }
+
+  return { subtopic, sourceCount: contents.length, types, stances, warnings };
+}
+
+// "3 news, 1 government; stance: 2 supports, 2 neutral"
+export function describeEvidenceMix(mix: EvidenceMix): string {
+  const list = (counts: Partial<Record<string, number>>) => Object.entries(counts)
+    .sort((a, b) => (b[1] || 0) - (a[1] || 0))
+    .map(([label, number]) => `${number} ${label}`)
+    .join(', ');
+
+  const types = list(mix.types);
+  const stances = list(mix.stances);
+  return [types, stances ? `stance: ${stances}` : ''].filter(Boolean).join('; ');
+}
@@ -15,6 +15,9 @@ export const FALLBACK_MODELS = [
 
 export type ModelTask = keyof typeof MODEL_STRATEGY;
 
+// Model families that accept response_format: { type: 'json_object' } through OpenRouter
+const JSON_MODE_MODEL_PREFIXES = ['google/gemini', 'openai/', 'mistralai/'];
+
 export interface ModelUsage {
   model: string;
   promptTokens: number;
@@ -31,6 +34,10 @@ export class ModelRouter {
     return FALLBACK_MODELS.filter(model => model !== primaryModel);
   }
 
+  supportsJsonMode(model: string): boolean {
+    return JSON_MODE_MODEL_PREFIXES.some(prefix => model.startsWith(prefix));
+  }
+
   createModelUsageTracker() {
     const usage: ModelUsage[] = [];
 
@@ -1,4 +1,14 @@
 import axios from 'axios';
+import { CircuitOpenError, circuitBreakers } from './circuit-breaker';
+import { CredentialPool, CredentialsUnavailableError, readRateLimitHeaders } from './credentials';
+import { modelRouter } from './models';
+import {
+  createRepairPrompt,
+  createStructuredOutputStats,
+  OutputSchema,
+  StructuredOutputError,
+  StructuredOutputStats
+} from './structured-output';
 
 const OPENROUTER_BASE = 'https://openrouter.ai/api/v1';
 
@@ -13,6 +23,13 @@ export interface OpenRouterResponse {
     completion_tokens: number;
     total_tokens: number;
   };
+  // The model that answered, which may be a fallback (set by chatWithFallback)
+  model?: string;
+}
+
+export interface StructuredResponse<T> {
+  value: T;
+  model: string;
 }
 
 export interface OpenRouterRequest {
@@ -24,20 +41,32 @@ export interface OpenRouterRequest {
   max_tokens?: number;
   temperature?: number;
   stream?: boolean;
+  // Dropped for models without JSON mode (see modelRouter.supportsJsonMode)
+  response_format?: { type: 'json_object' };
+}
+
+// Key problems (invalid, out of credits, pool exhausted) say nothing about the model's health
+function isModelFailure(error: unknown): boolean {
+  const message = error instanceof Error ? error.message : '';
+  return !/Invalid API key|Insufficient credits|No available \S+ key/.test(message);
 }
 
 export class OpenRouterClient {
-  private apiKey: string;
+  private credentials: CredentialPool;
   private baseURL: string;
+  private structuredOutputStats: StructuredOutputStats = createStructuredOutputStats();
 
-  constructor(apiKey: string) {
-    this.apiKey = apiKey;
+  // A single key is wrapped in a one-key pool
+  constructor(credentials: string | CredentialPool) {
+    this.credentials = typeof credentials === 'string'
+      ? new CredentialPool('OPENROUTER_API_KEY', [credentials])
+      : credentials;
     this.baseURL = OPENROUTER_BASE;
   }
 
   async chat(request: OpenRouterRequest): Promise<OpenRouterResponse> {
     try {
-      const response = await axios.post(
+      const response = await this.credentials.use(apiKey => axios.post<OpenRouterResponse>(
         `${this.baseURL}/chat/completions`,
         {
           ...request,
@@ -46,17 +75,23 @@ export class OpenRouterClient {
         },
         {
           headers: {
-            'Authorization': `Bearer ${this.apiKey}`,
+            'Authorization': `Bearer ${apiKey}`,
             'HTTP-Referer': 'https://ar.khamel.com',
             'X-Title': 'Atlas Researcher',
             'Content-Type': 'application/json',
           },
           timeout: 120000, // 2 minutes
         }
-      );
+      ), res => ({
+        ...readRateLimitHeaders(res.headers),
+        tokens: res.data.usage?.total_tokens
+      }));
 
       return response.data;
     } catch (error) {
+      if (error instanceof CredentialsUnavailableError) {
+        throw new Error(`Rate limit exceeded: ${error.message}`);
+      }
       if (axios.isAxiosError(error)) {
         const status = error.response?.status;
         const message = error.response?.data?.error?.message || error.message;
@@ -75,6 +110,27 @@ export class OpenRouterClient {
     }
   }
 
+  // OpenAI-compatible embeddings endpoint; returns one vector per input, in order
+  async embed(model: string, input: string[]): Promise<number[][]> {
+    const response = await this.credentials.use(apiKey => axios.post<{ data: Array<{ index: number; embedding: number[] }> }>(
+      `${this.baseURL}/embeddings`,
+      { model, input },
+      {
+        headers: {
+          'Authorization': `Bearer ${apiKey}`,
+          'HTTP-Referer': 'https://ar.khamel.com',
+          'X-Title': 'Atlas Researcher',
+          'Content-Type': 'application/json',
+        },
+        timeout: 30000,
+      }
+    ), res => readRateLimitHeaders(res.headers));
+
+    return [...response.data.data]
+      .sort((a, b) => a.index - b.index)
+      .map(item => item.embedding);
+  }
+
   async chatWithFallback(
     request: OpenRouterRequest,
     fallbackModels: string[] = []
@@ -83,9 +139,18 @@ export class OpenRouterClient {
 
     for (let i = 0; i < models.length; i++) {
       try {
-        const modelRequest = { ...request, model: models[i] };
-        return await this.chat(modelRequest);
+        const modelRequest: OpenRouterRequest = { ...request, model: models[i] };
+        if (modelRequest.response_format && !modelRouter.supportsJsonMode(models[i])) {
+          delete modelRequest.response_format;
+        }
+        const response = await circuitBreakers.run(`model:${models[i]}`, () => this.chat(modelRequest), isModelFailure);
+        return { ...response, model: models[i] };
       } catch (error: any) {
+        // Models that keep failing are skipped without waiting for a timeout
+        if (error instanceof CircuitOpenError) {
+          console.warn(`Skipping model ${models[i]}: ${error.message}`);
+          continue;
+        }
         // If it's a rate limit error and we have fallback models, try the next one
         if (error.message.includes('Rate limit exceeded') && i < models.length - 1) {
           console.warn(`Model ${models[i]} rate limited, trying fallback: ${models[i + 1]}`);
@@ -98,8 +163,63 @@ export class OpenRouterClient {
 
     throw new Error('All models failed');
   }
+
+  // chatWithFallback for output with a declared schema: JSON mode where the
+  // model supports it, then one repair re-prompt quoting the schema errors if
+  // the response does not validate. Returns the value with the model that
+  // produced it; throws StructuredOutputError if the repaired response is
+  // still invalid.
+  async chatStructured<T>(
+    request: OpenRouterRequest,
+    schema: OutputSchema<T>,
+    fallbackModels: string[] = []
+  ): Promise<StructuredResponse<T>> {
+    const stats = this.structuredOutputStats;
+    stats.requests++;
+
+    const structuredRequest: OpenRouterRequest = schema.format === 'json'
+      ? { ...request, response_format: { type: 'json_object' } }
+      : request;
+    const response = await this.chatWithFallback(structuredRequest, fallbackModels);
+    const content = response.choices[0]?.message?.content || '';
+
+    const result = schema.parse(content);
+    if (result.ok) {
+      return { value: result.value, model: response.model || request.model };
+    }
+
+    if (result.stage === 'parse') {
+      stats.parseFailures++;
+    } else {
+      stats.validationFailures++;
+    }
+    console.warn(`Invalid ${schema.name} output, asking for a repair:`, result.errors.slice(0, 3).join('; '));
+
+    const repairResponse = await this.chatWithFallback({
+      ...structuredRequest,
+      messages: [
+        ...structuredRequest.messages,
+        { role: 'assistant', content },
+        { role: 'user', content: createRepairPrompt(schema, result.errors) }
+      ]
+    }, fallbackModels);
+
+    const repaired = schema.parse(repairResponse.choices[0]?.message?.content || '');
+    if (repaired.ok) {
+      stats.repairs++;
+      return { value: repaired.value, model: repairResponse.model || request.model };
+    }
+
+    stats.failures++;
+    throw new StructuredOutputError(schema.name, repaired.errors);
+  }
+
+  // Parse failures and repairs for every structured request made with this client
+  getStructuredOutputStats(): StructuredOutputStats {
+    return { ...this.structuredOutputStats };
+  }
 }
 
-export const createOpenRouterClient = (apiKey: string) => {
-  return new OpenRouterClient(apiKey);
+export const createOpenRouterClient = (credentials: string | CredentialPool) => {
+  return new OpenRouterClient(credentials);
 };
\ No newline at end of file
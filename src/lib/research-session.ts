@@ -1,5 +1,8 @@
 import { ResearchReport } from './agents/synthesizer';
+import { ConsensusAnalysis } from './agents/consensus';
 import { EvaluationResult } from './agents/evaluator';
+import { InjectionReport } from './content/injection';
+import { StructuredOutputStats } from './structured-output';
 
 export interface ResearchSession {
   id: string;
@@ -17,6 +20,7 @@ export interface ResearchSession {
   planningResult?: any;
   searchResults?: any[];
   evaluationResults?: EvaluationResult[];
+  consensusAnalysis?: ConsensusAnalysis;
   synthesisResult?: {
     fullReport: string;
     wordCount: number;
@@ -32,6 +36,8 @@ export interface ResearchSession {
     modelsUsed?: string[];
     subtopicsInvestigated?: number;
     sourcesEvaluated?: number;
+    structuredOutput?: StructuredOutputStats;
+    promptInjection?: InjectionReport;
   };
 }
 
@@ -44,6 +50,7 @@ export interface SessionUpdate {
   planningResult?: any;
   searchResults?: any[];
   evaluationResults?: EvaluationResult[];
+  consensusAnalysis?: ConsensusAnalysis;
   synthesisResult?: any;
   metadata?: any;
 }
@@ -0,0 +1,79 @@
+import axios from 'axios';
+import { decodeEntities, stripTags } from '../content/markup';
+import { SearchOptions, SearchProvider, SearchProviderConfig, SearchResult } from './types';
+
+const ARXIV_QUERY_URL = 'https://export.arxiv.org/api/query';
+
+function readTag(entry: string, tag: string): string | undefined {
+  const match = entry.match(new RegExp(`<${tag}[^>]*>([\\s\\S]*?)</${tag}>`));
+  return match ? stripTags(match[1]) : undefined;
+}
+
+// arXiv preprints; entries with a journal reference have since been published
+export class ArxivProvider implements SearchProvider {
+  readonly id: string;
+  readonly type = 'arxiv' as const;
+  readonly category = 'academic' as const;
+  readonly capabilities = {
+    dateFilter: true,
+    domainFilter: false,
+    localeFilter: false,
+    rawContent: false
+  };
+
+  constructor(config: SearchProviderConfig) {
+    this.id = config.id;
+  }
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async search(query: string, options: SearchOptions): Promise<SearchResult[]> {
+    const terms = query.replace(/["()]/g, ' ').split(/\s+/).filter(term => term.length > 0);
+    const clauses = terms.map(term => `all:${term}`);
+
+    const { startDate, endDate } = options.filters || {};
+    if (startDate || endDate) {
+      const from = (startDate || '1991-01-01').replace(/-/g, '');
+      const to = (endDate || new Date().toISOString().slice(0, 10)).replace(/-/g, '');
+      clauses.push(`submittedDate:[${from}0000 TO ${to}2359]`);
+    }
+
+    const response = await axios.get(ARXIV_QUERY_URL, {
+      params: {
+        search_query: clauses.join(' AND '),
+        start: 0,
+        max_results: options.maxResults,
+        sortBy: 'relevance'
+      },
+      responseType: 'text',
+      timeout: 15000
+    });
+
+    const entries: string[] = String(response.data).split('<entry>').slice(1);
+
+    return entries.map(entry => {
+      const id = readTag(entry, 'id') || '';
+      const journalRef = readTag(entry, 'arxiv:journal_ref');
+      const published = readTag(entry, 'published');
+      const authors = Array.from(entry.matchAll(/<author>\s*<name>([\s\S]*?)<\/name>/g))
+        .map(match => decodeEntities(match[1].trim()));
+
+      return {
+        url: id.replace(/^http:/, 'https:'),
+        title: readTag(entry, 'title') || 'Untitled preprint',
+        snippet: readTag(entry, 'summary') || 'No abstract available',
+        source: this.type,
+        publishedDate: published ? published.slice(0, 10) : undefined,
+        academic: {
+          doi: readTag(entry, 'arxiv:doi'),
+          authors,
+          venue: journalRef || 'arXiv',
+          year: published ? parseInt(published.slice(0, 4), 10) : undefined,
+          peerReviewed: Boolean(journalRef)
+        }
+      };
+    }).filter(result => result.url.startsWith('https://'));
+  }
+}
@@ -0,0 +1,18 @@
+// Normalizes provider date strings ("2024-03-05T10:00:00Z", "2024/03/05", "2024 Mar 5",
+// "Tue, 05 Mar 2024 ...") to YYYY-MM-DD; returns undefined when unparseable
+export function toIsoDate(value: string | undefined | null): string | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const isoMatch = value.match(/^(\d{4})[-/](\d{2})[-/](\d{2})/);
+  if (isoMatch) {
+    return `${isoMatch[1]}-${isoMatch[2]}-${isoMatch[3]}`;
+  }
+
+  const timestamp = Date.parse(value);
+  if (isNaN(timestamp)) {
+    return undefined;
+  }
+  return new Date(timestamp).toISOString().slice(0, 10);
+}
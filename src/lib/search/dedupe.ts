@@ -0,0 +1,45 @@
+import { SearchResults } from '../agents/searcher';
+import { canonicalizeUrl, stripTrackingParams } from './url';
+
+export interface DedupedSearchResults {
+  // Per subtopic, only the sources it is the first to find
+  owned: SearchResults[];
+  // Canonical URL -> every subtopic that found the source, in plan order
+  subtopicsBySource: Map<string, string[]>;
+  totalResults: number;
+  uniqueSources: number;
+}
+
+// Collapses sources that several subtopics (or tracking-parameter variants) returned,
+// so each unique source is fetched and evaluated once
+export function dedupeSearchResults(searchResults: SearchResults[]): DedupedSearchResults {
+  const subtopicsBySource = new Map<string, string[]>();
+  let totalResults = 0;
+
+  const owned = searchResults.map(searchResult => {
+    const results = searchResult.results.filter(result => {
+      totalResults++;
+      const key = canonicalizeUrl(result.url);
+      const subtopics = subtopicsBySource.get(key);
+
+      if (subtopics) {
+        if (!subtopics.includes(searchResult.subtopic)) {
+          subtopics.push(searchResult.subtopic);
+        }
+        return false;
+      }
+
+      subtopicsBySource.set(key, [searchResult.subtopic]);
+      return true;
+    }).map(result => ({ ...result, url: stripTrackingParams(result.url) }));
+
+    return { ...searchResult, results };
+  });
+
+  return {
+    owned,
+    subtopicsBySource,
+    totalResults,
+    uniqueSources: subtopicsBySource.size
+  };
+}
@@ -0,0 +1,106 @@
+import { SearchFilters, SearchProviderCapabilities, SearchResult } from './types';
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+function normalizeDomains(value: unknown): string[] | undefined {
+  const entries = Array.isArray(value) ? value : typeof value === 'string' ? value.split(/[\s,]+/) : [];
+  const domains = entries
+    .filter((entry): entry is string => typeof entry === 'string')
+    .map(entry => entry.trim().toLowerCase()
+      .replace(/^[a-z]+:\/\//, '')
+      .replace(/^www\./, '')
+      .replace(/\/.*$/, ''))
+    .filter(entry => /^[a-z0-9.-]+\.[a-z]{2,}$/.test(entry));
+  return domains.length > 0 ? [...new Set(domains)] : undefined;
+}
+
+function normalizeDate(value: unknown): string | undefined {
+  return typeof value === 'string' && ISO_DATE.test(value) && !isNaN(Date.parse(value)) ? value : undefined;
+}
+
+function normalizeCode(value: unknown): string | undefined {
+  return typeof value === 'string' && /^[a-z]{2}$/i.test(value.trim()) ? value.trim().toLowerCase() : undefined;
+}
+
+// Validates filters from a request body; returns undefined when nothing usable is set
+export function parseSearchFilters(input: unknown): SearchFilters | undefined {
+  if (!input || typeof input !== 'object') {
+    return undefined;
+  }
+
+  const raw = input as Record<string, unknown>;
+  const filters: SearchFilters = {
+    includeDomains: normalizeDomains(raw.includeDomains),
+    excludeDomains: normalizeDomains(raw.excludeDomains),
+    startDate: normalizeDate(raw.startDate),
+    endDate: normalizeDate(raw.endDate),
+    language: normalizeCode(raw.language),
+    region: normalizeCode(raw.region)
+  };
+
+  if (filters.startDate && filters.endDate && filters.startDate > filters.endDate) {
+    [filters.startDate, filters.endDate] = [filters.endDate, filters.startDate];
+  }
+
+  const defined = Object.entries(filters).filter(([, value]) => value !== undefined);
+  return defined.length > 0 ? Object.fromEntries(defined) as SearchFilters : undefined;
+}
+
+export function hostMatchesDomain(url: string, domain: string): boolean {
+  try {
+    const host = new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+    return host === domain || host.endsWith(`.${domain}`);
+  } catch {
+    return false;
+  }
+}
+
+// Post-filters results for whatever the provider could not filter natively.
+// Domain rules are cheap and always enforced; undated results pass date filters.
+export function applySearchFilters(
+  results: SearchResult[],
+  filters: SearchFilters | undefined,
+  capabilities: SearchProviderCapabilities
+): SearchResult[] {
+  if (!filters) {
+    return results;
+  }
+
+  return results.filter(result => {
+    if (result.url.startsWith('file:')) {
+      return true;
+    }
+    if (filters.includeDomains && !filters.includeDomains.some(domain => hostMatchesDomain(result.url, domain))) {
+      return false;
+    }
+    if (filters.excludeDomains?.some(domain => hostMatchesDomain(result.url, domain))) {
+      return false;
+    }
+    if (!capabilities.dateFilter && result.publishedDate) {
+      const date = result.publishedDate.slice(0, 10);
+      if (filters.startDate && date < filters.startDate) return false;
+      if (filters.endDate && date > filters.endDate) return false;
+    }
+    return true;
+  });
+}
+
+// Human-readable summary for prompts and progress messages
+export function describeSearchFilters(filters: SearchFilters | undefined): string {
+  if (!filters) {
+    return '';
+  }
+
+  const dateRange = [
+    filters.startDate ? `from ${filters.startDate}` : '',
+    filters.endDate ? `until ${filters.endDate}` : ''
+  ].filter(Boolean).join(' ');
+
+  return [
+    filters.includeDomains ? `only sources from ${filters.includeDomains.join(', ')}` : '',
+    filters.excludeDomains ? `no sources from ${filters.excludeDomains.join(', ')}` : '',
+    dateRange ? `published ${dateRange}` : '',
+    filters.language ? `language: ${filters.language}` : '',
+    filters.region ? `region: ${filters.region.toUpperCase()}` : ''
+  ].filter(Boolean).join('; ');
+}
@@ -0,0 +1,39 @@
+import { getLocalCorpus } from '../corpus/local-corpus';
+import { SearchOptions, SearchProvider, SearchProviderConfig, SearchResult } from './types';
+
+// Searches the LOCAL_CORPUS_DIR document folder; results use file:// URLs
+export class LocalCorpusProvider implements SearchProvider {
+  readonly id: string;
+  readonly type = 'local' as const;
+  readonly category = 'local' as const;
+  readonly capabilities = {
+    dateFilter: false,
+    domainFilter: false,
+    localeFilter: false,
+    rawContent: true
+  };
+
+  constructor(config: SearchProviderConfig) {
+    this.id = config.id;
+  }
+
+  isConfigured(): boolean {
+    return getLocalCorpus() !== null;
+  }
+
+  async search(query: string, options: SearchOptions): Promise<SearchResult[]> {
+    const corpus = getLocalCorpus();
+    if (!corpus) {
+      throw new Error('Local corpus not configured (LOCAL_CORPUS_DIR)');
+    }
+
+    const hits = await corpus.search(query, options.maxResults);
+
+    return hits.map(hit => ({
+      url: hit.chunk.page ? `${hit.document.url}#page=${hit.chunk.page}` : hit.document.url,
+      title: hit.chunk.page ? `${hit.document.title} (p. ${hit.chunk.page})` : hit.document.title,
+      snippet: hit.chunk.text.replace(/\s+/g, ' ').substring(0, 300),
+      source: this.type
+    }));
+  }
+}
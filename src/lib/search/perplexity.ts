@@ -0,0 +1,145 @@
+import axios from 'axios';
+import { CredentialPool, getCredentialPool, readRateLimitHeaders } from '../credentials';
+import { toIsoDate } from './dates';
+import { SearchOptions, SearchProvider, SearchProviderConfig, SearchResult } from './types';
+
+const PERPLEXITY_CHAT_URL = 'https://api.perplexity.ai/chat/completions';
+
+// Perplexity date filters use M/D/YYYY
+function toUsDate(isoDate: string): string {
+  const [year, month, day] = isoDate.split('-').map(part => parseInt(part, 10));
+  return `${month}/${day}/${year}`;
+}
+
+interface PerplexitySearchResult {
+  url: string;
+  title?: string;
+  snippet?: string;
+  date?: string;
+  last_updated?: string;
+}
+
+interface PerplexityResponse {
+  choices?: Array<{ message?: { content?: string } }>;
+  citations?: string[];
+  search_results?: PerplexitySearchResult[];
+}
+
+// Only well-formed http(s) URLs are returned as sources
+function toHttpUrl(value: unknown): URL | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url : null;
+  } catch {
+    return null;
+  }
+}
+
+// Sentences of the answer that cite source [n], without the citation markers
+function citedSentences(answer: string, citationNumber: number): string {
+  const marker = `[${citationNumber}]`;
+  return answer
+    .split(/(?<=[.!?])\s+/)
+    .filter(sentence => sentence.includes(marker))
+    .map(sentence => sentence.replace(/\s*\[\d+\]/g, '').replace(/[*#]/g, '').trim())
+    .join(' ')
+    .substring(0, 300);
+}
+
+export class PerplexityProvider implements SearchProvider {
+  readonly id: string;
+  readonly type = 'perplexity' as const;
+  readonly category = 'web' as const;
+  readonly capabilities = {
+    dateFilter: true,
+    domainFilter: true,
+    localeFilter: false,
+    rawContent: false
+  };
+
+  private credentials: CredentialPool;
+
+  constructor(config: SearchProviderConfig) {
+    this.id = config.id;
+    this.credentials = getCredentialPool(config.apiKeyEnv || 'PERPLEXITY_API_KEY');
+  }
+
+  isConfigured(): boolean {
+    return this.credentials.size > 0;
+  }
+
+  async search(query: string, options: SearchOptions): Promise<SearchResult[]> {
+    if (this.credentials.size === 0) {
+      throw new Error(`Perplexity API key not configured (${this.credentials.name})`);
+    }
+
+    const filters = options.filters || {};
+    // Perplexity takes up to 10 domains; a leading "-" excludes a domain
+    const domainFilter = [
+      ...(filters.includeDomains || []),
+      ...(filters.excludeDomains || []).map(domain => `-${domain}`)
+    ].slice(0, 10);
+
+    const response = await this.credentials.use(apiKey => axios.post<PerplexityResponse>(PERPLEXITY_CHAT_URL, {
+      model: 'sonar',
+      messages: [
+        {
+          role: 'system',
+          content: 'You are a helpful research assistant. Provide factual, up-to-date information and cite your sources.'
+        },
+        {
+          role: 'user',
+          content: `Search for information about: ${query}`
+        }
+      ],
+      max_tokens: 1000,
+      temperature: 0.1,
+      ...(domainFilter.length > 0 ? { search_domain_filter: domainFilter } : {}),
+      ...(filters.startDate ? { search_after_date_filter: toUsDate(filters.startDate) } : {}),
+      ...(filters.endDate ? { search_before_date_filter: toUsDate(filters.endDate) } : {})
+    }, {
+      headers: {
+        'Authorization': `Bearer ${apiKey}`,
+        'Content-Type': 'application/json'
+      },
+      timeout: 20000
+    }), res => readRateLimitHeaders(res.headers));
+
+    const answer = response.data.choices?.[0]?.message?.content || '';
+    const citations = response.data.citations || [];
+
+    // search_results carries titles and dates; older responses only have the
+    // bare citation URLs, whose titles fall back to the host name
+    const sources: PerplexitySearchResult[] = response.data.search_results?.length
+      ? response.data.search_results
+      : citations.map(url => ({ url }));
+
+    const results: SearchResult[] = [];
+    const seen = new Set<string>();
+
+    for (const source of sources) {
+      const url = toHttpUrl(source.url);
+      if (!url || seen.has(url.href)) {
+        continue;
+      }
+      seen.add(url.href);
+
+      // The answer cites sources as [n], numbered by position in `citations`
+      const citationNumber = citations.indexOf(source.url) + 1;
+      const snippet = source.snippet || (citationNumber > 0 ? citedSentences(answer, citationNumber) : '');
+
+      results.push({
+        url: url.href,
+        title: source.title?.trim() || url.hostname.replace(/^www\./, ''),
+        snippet: snippet || 'No description available',
+        source: this.type,
+        publishedDate: toIsoDate(source.date || source.last_updated)
+      });
+    }
+
+    return results.slice(0, options.maxResults);
+  }
+}
@@ -0,0 +1,106 @@
+import axios from 'axios';
+import { decodeEntities } from '../content/markup';
+import { toIsoDate } from './dates';
+import { SearchOptions, SearchProvider, SearchProviderConfig, SearchResult } from './types';
+
+const EUTILS_BASE = 'https://eutils.ncbi.nlm.nih.gov/entrez/eutils';
+
+interface PubmedSummary {
+  uid: string;
+  title?: string;
+  pubdate?: string;
+  sortpubdate?: string;
+  fulljournalname?: string;
+  source?: string;
+  authors?: Array<{ name: string }>;
+  articleids?: Array<{ idtype: string; value: string }>;
+}
+
+export class PubmedProvider implements SearchProvider {
+  readonly id: string;
+  readonly type = 'pubmed' as const;
+  readonly category = 'academic' as const;
+  readonly capabilities = {
+    dateFilter: true,
+    domainFilter: false,
+    localeFilter: false,
+    rawContent: false
+  };
+
+  private apiKeyEnv: string;
+
+  constructor(config: SearchProviderConfig) {
+    this.id = config.id;
+    this.apiKeyEnv = config.apiKeyEnv || 'NCBI_API_KEY';
+  }
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async search(query: string, options: SearchOptions): Promise<SearchResult[]> {
+    // Optional: an NCBI key raises the E-utilities rate limit from 3 to 10 requests/second
+    const apiKey = process.env[this.apiKeyEnv];
+    const keyParams = apiKey ? { api_key: apiKey } : {};
+
+    const { startDate, endDate } = options.filters || {};
+    const dateParams = startDate || endDate
+      ? {
+        datetype: 'pdat',
+        mindate: (startDate || '1800-01-01').replace(/-/g, '/'),
+        maxdate: (endDate || new Date().toISOString().slice(0, 10)).replace(/-/g, '/')
+      }
+      : {};
+
+    const searchResponse = await axios.get(`${EUTILS_BASE}/esearch.fcgi`, {
+      params: {
+        db: 'pubmed',
+        term: query,
+        retmax: options.maxResults,
+        retmode: 'json',
+        sort: 'relevance',
+        ...dateParams,
+        ...keyParams
+      },
+      timeout: 15000
+    });
+
+    const ids: string[] = searchResponse.data?.esearchresult?.idlist || [];
+    if (ids.length === 0) {
+      return [];
+    }
+
+    const summaryResponse = await axios.get(`${EUTILS_BASE}/esummary.fcgi`, {
+      params: {
+        db: 'pubmed',
+        id: ids.join(','),
+        retmode: 'json',
+        ...keyParams
+      },
+      timeout: 15000
+    });
+
+    const records: Record<string, PubmedSummary> = summaryResponse.data?.result || {};
+
+    return ids.filter(id => records[id]?.title).map(id => {
+      const record = records[id];
+      const venue = record.fulljournalname || record.source;
+      const year = record.pubdate ? parseInt(record.pubdate.slice(0, 4), 10) : NaN;
+
+      return {
+        url: `https://pubmed.ncbi.nlm.nih.gov/${id}/`,
+        title: decodeEntities(record.title!),
+        snippet: [venue, record.pubdate].filter(Boolean).join(', ') || 'No description available',
+        source: this.type,
+        publishedDate: toIsoDate(record.sortpubdate),
+        academic: {
+          doi: record.articleids?.find(a => a.idtype === 'doi')?.value,
+          authors: (record.authors || []).map(a => a.name),
+          venue,
+          year: isNaN(year) ? undefined : year,
+          peerReviewed: true
+        }
+      };
+    });
+  }
+}
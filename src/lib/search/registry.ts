@@ -0,0 +1,137 @@
+import { getSearchProviderEntries } from '../config';
+import { ArxivProvider } from './arxiv';
+import { CrossrefProvider } from './crossref';
+import { LocalCorpusProvider } from './local';
+import { PerplexityProvider } from './perplexity';
+import { PubmedProvider } from './pubmed';
+import { SearxngProvider } from './searxng';
+import { TavilyProvider } from './tavily';
+import {
+  SEARCH_PROVIDER_TYPES,
+  SearchMode,
+  SearchProvider,
+  SearchProviderCapabilities,
+  SearchProviderConfig,
+  SearchProviderType
+} from './types';
+
+const PROVIDER_FACTORIES: Record<SearchProviderType, (config: SearchProviderConfig) => SearchProvider> = {
+  tavily: config => new TavilyProvider(config),
+  perplexity: config => new PerplexityProvider(config),
+  searxng: config => new SearxngProvider(config),
+  arxiv: config => new ArxivProvider(config),
+  crossref: config => new CrossrefProvider(config),
+  pubmed: config => new PubmedProvider(config),
+  local: config => new LocalCorpusProvider(config)
+};
+
+// Used when SEARCH_PROVIDERS is not set; order is the fallback order.
+// Key-based providers rotate through a credential pool (see credentials.ts),
+// so TAVILY_API_KEY_BACKUP is part of the tavily pool rather than its own provider.
+export const DEFAULT_SEARCH_PROVIDERS: SearchProviderConfig[] = [
+  { id: 'tavily', type: 'tavily', apiKeyEnv: 'TAVILY_API_KEY' },
+  { id: 'perplexity', type: 'perplexity', apiKeyEnv: 'PERPLEXITY_API_KEY' },
+  { id: 'searxng', type: 'searxng', baseUrlEnv: 'SEARXNG_BASE_URL' },
+  { id: 'arxiv', type: 'arxiv' },
+  { id: 'crossref', type: 'crossref', apiKeyEnv: 'CROSSREF_MAILTO' },
+  { id: 'pubmed', type: 'pubmed', apiKeyEnv: 'NCBI_API_KEY' },
+  { id: 'local', type: 'local' }
+];
+
+export interface SearchProviderStatus {
+  id: string;
+  type: SearchProviderType;
+  category: SearchMode;
+  enabled: boolean;
+  configured: boolean;
+  capabilities: SearchProviderCapabilities;
+}
+
+export function isSearchProviderType(value: string): value is SearchProviderType {
+  return (SEARCH_PROVIDER_TYPES as readonly string[]).includes(value);
+}
+
+export function createSearchProvider(config: SearchProviderConfig): SearchProvider {
+  return PROVIDER_FACTORIES[config.type](config);
+}
+
+export class SearchProviderRegistry {
+  private providers: SearchProvider[] = [];
+  private disabled = new Set<string>();
+
+  register(provider: SearchProvider, enabled: boolean = true): void {
+    this.unregister(provider.id);
+    this.providers.push(provider);
+    this.setEnabled(provider.id, enabled);
+  }
+
+  unregister(id: string): boolean {
+    const before = this.providers.length;
+    this.providers = this.providers.filter(p => p.id !== id);
+    this.disabled.delete(id);
+    return this.providers.length < before;
+  }
+
+  setEnabled(id: string, enabled: boolean): void {
+    if (enabled) {
+      this.disabled.delete(id);
+    } else {
+      this.disabled.add(id);
+    }
+  }
+
+  getProvider(id: string): SearchProvider | undefined {
+    return this.providers.find(p => p.id === id);
+  }
+
+  // Enabled providers that have credentials, in fallback order
+  getActiveProviders(category: SearchMode = 'web'): SearchProvider[] {
+    return this.providers.filter(p =>
+      p.category === category && !this.disabled.has(p.id) && p.isConfigured()
+    );
+  }
+
+  listProviders(): SearchProviderStatus[] {
+    return this.providers.map(p => ({
+      id: p.id,
+      type: p.type,
+      category: p.category,
+      enabled: !this.disabled.has(p.id),
+      configured: p.isConfigured(),
+      capabilities: p.capabilities
+    }));
+  }
+}
+
+export function createSearchProviderRegistry(): SearchProviderRegistry {
+  const registry = new SearchProviderRegistry();
+  const entries = getSearchProviderEntries();
+
+  if (!entries) {
+    DEFAULT_SEARCH_PROVIDERS.forEach(config => registry.register(createSearchProvider(config)));
+    return registry;
+  }
+
+  for (const entry of entries) {
+    const known = DEFAULT_SEARCH_PROVIDERS.find(c => c.id === entry.id);
+    const type = entry.type || known?.type;
+
+    if (!type || !isSearchProviderType(type)) {
+      console.warn(`Unknown search provider "${entry.id}" in SEARCH_PROVIDERS, skipping`);
+      continue;
+    }
+
+    const envPrefix = entry.id.toUpperCase().replace(/[^A-Z0-9]/g, '_');
+    registry.register(createSearchProvider({
+      ...known,
+      id: entry.id,
+      type,
+      apiKeyEnv: known?.apiKeyEnv || `${envPrefix}_API_KEY`,
+      baseUrlEnv: known?.baseUrlEnv || `${envPrefix}_BASE_URL`
+    }), entry.enabled);
+  }
+
+  return registry;
+}
+
+export const searchProviderRegistry = createSearchProviderRegistry();
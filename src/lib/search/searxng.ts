@@ -0,0 +1,81 @@
+import axios from 'axios';
+import { toIsoDate } from './dates';
+import { SearchOptions, SearchProvider, SearchProviderConfig, SearchResult } from './types';
+
+interface SearxngResult {
+  url?: string;
+  title?: string;
+  content?: string;
+  publishedDate?: string;
+}
+
+// Self-hosted SearXNG metasearch instance. The instance must have the JSON
+// output format enabled (search.formats in settings.yml).
+export class SearxngProvider implements SearchProvider {
+  readonly id: string;
+  readonly type = 'searxng' as const;
+  readonly category = 'web' as const;
+  readonly capabilities = {
+    dateFilter: false,
+    domainFilter: false,
+    localeFilter: true,
+    rawContent: false
+  };
+
+  private baseUrlEnv: string;
+  private apiKeyEnv?: string;
+
+  constructor(config: SearchProviderConfig) {
+    this.id = config.id;
+    this.baseUrlEnv = config.baseUrlEnv || 'SEARXNG_BASE_URL';
+    this.apiKeyEnv = config.apiKeyEnv;
+  }
+
+  isConfigured(): boolean {
+    return Boolean(process.env[this.baseUrlEnv]);
+  }
+
+  async search(query: string, options: SearchOptions): Promise<SearchResult[]> {
+    const baseUrl = process.env[this.baseUrlEnv];
+    if (!baseUrl) {
+      throw new Error(`SearXNG base URL not configured (${this.baseUrlEnv})`);
+    }
+
+    // Optional bearer token for instances behind an authenticating proxy
+    const apiKey = this.apiKeyEnv ? process.env[this.apiKeyEnv] : undefined;
+
+    const filters = options.filters || {};
+    const language = filters.language && filters.region
+      ? `${filters.language}-${filters.region.toUpperCase()}`
+      : filters.language;
+
+    const response = await axios.get(`${baseUrl.replace(/\/+$/, '')}/search`, {
+      params: {
+        q: query,
+        format: 'json',
+        categories: 'general',
+        safesearch: 1,
+        ...(language ? { language } : {})
+      },
+      headers: apiKey ? { 'Authorization': `Bearer ${apiKey}` } : undefined,
+      timeout: 15000
+    });
+
+    if (typeof response.data !== 'object' || !Array.isArray(response.data?.results)) {
+      throw new Error('SearXNG returned a non-JSON response; is the json format enabled?');
+    }
+
+    const results: SearxngResult[] = response.data.results;
+
+    return results
+      .filter(result => result.url && /^https?:\/\//i.test(result.url))
+      .slice(0, options.maxResults)
+      .map(result => ({
+        url: result.url as string,
+        title: result.title || result.url as string,
+        snippet: result.content || 'No description available',
+        source: this.type,
+        publishedDate: toIsoDate(result.publishedDate)
+      }));
+  }
+}
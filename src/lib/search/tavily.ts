@@ -0,0 +1,86 @@
+import axios from 'axios';
+import { CredentialPool, getCredentialPool, readRateLimitHeaders } from '../credentials';
+import { toIsoDate } from './dates';
+import { SearchOptions, SearchProvider, SearchProviderConfig, SearchResult } from './types';
+
+const TAVILY_SEARCH_URL = 'https://api.tavily.com/search';
+
+// Tavily boosts results from a country given by name rather than ISO code
+const TAVILY_COUNTRIES: Record<string, string> = {
+  us: 'united states',
+  gb: 'united kingdom',
+  ca: 'canada',
+  au: 'australia',
+  de: 'germany',
+  fr: 'france',
+  es: 'spain',
+  it: 'italy',
+  nl: 'netherlands',
+  in: 'india',
+  jp: 'japan',
+  br: 'brazil',
+  mx: 'mexico'
+};
+
+export class TavilyProvider implements SearchProvider {
+  readonly id: string;
+  readonly type = 'tavily' as const;
+  readonly category = 'web' as const;
+  readonly capabilities = {
+    dateFilter: true,
+    domainFilter: true,
+    localeFilter: true,
+    rawContent: true
+  };
+
+  private credentials: CredentialPool;
+
+  constructor(config: SearchProviderConfig) {
+    this.id = config.id;
+    this.credentials = getCredentialPool(config.apiKeyEnv || 'TAVILY_API_KEY');
+  }
+
+  isConfigured(): boolean {
+    return this.credentials.size > 0;
+  }
+
+  async search(query: string, options: SearchOptions): Promise<SearchResult[]> {
+    if (this.credentials.size === 0) {
+      throw new Error(`Tavily API key not configured (${this.credentials.name})`);
+    }
+
+    const filters = options.filters || {};
+
+    const response = await this.credentials.use(apiKey => axios.post(TAVILY_SEARCH_URL, {
+      api_key: apiKey,
+      query: query,
+      search_depth: 'basic',
+      include_answer: false,
+      include_raw_content: false,
+      max_results: options.maxResults,
+      include_domains: filters.includeDomains || [],
+      exclude_domains: filters.excludeDomains || [],
+      ...(filters.startDate ? { start_date: filters.startDate } : {}),
+      ...(filters.endDate ? { end_date: filters.endDate } : {}),
+      ...(filters.region && TAVILY_COUNTRIES[filters.region] ? { country: TAVILY_COUNTRIES[filters.region] } : {})
+    }, {
+      timeout: 15000
+    }), res => readRateLimitHeaders(res.headers));
+
+    const results: Array<{
+      url: string;
+      title: string;
+      content?: string;
+      snippet?: string;
+      published_date?: string;
+    }> = response.data.results || [];
+
+    return results.map(result => ({
+      url: result.url,
+      title: result.title,
+      snippet: result.content || result.snippet || 'No description available',
+      source: this.type,
+      publishedDate: toIsoDate(result.published_date)
+    }));
+  }
+}
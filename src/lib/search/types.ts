@@ -0,0 +1,65 @@
+export const SEARCH_PROVIDER_TYPES = ['tavily', 'perplexity', 'searxng', 'arxiv', 'crossref', 'pubmed', 'local'] as const;
+
+export type SearchProviderType = typeof SEARCH_PROVIDER_TYPES[number];
+
+// 'web' providers form a fallback chain; 'academic' providers are queried together;
+// 'local' searches the configured document folder only
+export type SearchMode = 'web' | 'academic' | 'local';
+
+export interface AcademicMetadata {
+  doi?: string;
+  authors: string[];
+  venue?: string;
+  year?: number;
+  peerReviewed: boolean;
+}
+
+export interface SearchResult {
+  url: string;
+  title: string;
+  snippet: string;
+  source: SearchProviderType;
+  // ISO date (YYYY-MM-DD) when the provider reports one
+  publishedDate?: string;
+  academic?: AcademicMetadata;
+}
+
+export interface SearchFilters {
+  includeDomains?: string[];
+  excludeDomains?: string[];
+  // Inclusive ISO dates (YYYY-MM-DD)
+  startDate?: string;
+  endDate?: string;
+  // ISO 639-1 language code, e.g. "en"
+  language?: string;
+  // ISO 3166-1 alpha-2 country code, e.g. "us"
+  region?: string;
+}
+
+export interface SearchProviderCapabilities {
+  dateFilter: boolean;
+  domainFilter: boolean;
+  localeFilter: boolean;
+  rawContent: boolean;
+}
+
+export interface SearchOptions {
+  maxResults: number;
+  filters?: SearchFilters;
+}
+
+export interface SearchProviderConfig {
+  id: string;
+  type: SearchProviderType;
+  apiKeyEnv?: string;
+  baseUrlEnv?: string;
+}
+
+export interface SearchProvider {
+  readonly id: string;
+  readonly type: SearchProviderType;
+  readonly category: SearchMode;
+  readonly capabilities: SearchProviderCapabilities;
+  isConfigured(): boolean;
+  search(query: string, options: SearchOptions): Promise<SearchResult[]>;
+}
@@ -0,0 +1,51 @@
+const TRACKING_PARAMS = new Set([
+  'fbclid', 'gclid', 'dclid', 'msclkid', 'yclid', 'mc_cid', 'mc_eid',
+  'igshid', 'ref_src', 'ref_url', '_hsenc', '_hsmi', 'spm', 'cmpid', 'ocid'
+]);
+
+function isTrackingParam(name: string): boolean {
+  const lower = name.toLowerCase();
+  return lower.startsWith('utm_') || TRACKING_PARAMS.has(lower);
+}
+
+// Removes tracking parameters and the fragment, keeping the URL fetchable as-is.
+// Local file URLs keep their #page=N fragment since it points at a PDF page.
+export function stripTrackingParams(url: string): string {
+  try {
+    const parsed = new URL(url);
+    [...parsed.searchParams.keys()].filter(isTrackingParam).forEach(name => parsed.searchParams.delete(name));
+    if (parsed.protocol !== 'file:') {
+      parsed.hash = '';
+    }
+    return parsed.toString();
+  } catch {
+    return url;
+  }
+}
+
+// Identity key for a source: tracking parameters, "www.", default ports,
+// parameter order, trailing slashes and index pages no longer matter
+export function canonicalizeUrl(url: string): string {
+  try {
+    const parsed = new URL(stripTrackingParams(url.trim()));
+    if (parsed.protocol === 'file:') {
+      return parsed.toString();
+    }
+
+    const host = parsed.hostname.toLowerCase().replace(/^www\./, '').replace(/\.$/, '');
+    const port = parsed.port && !['80', '443'].includes(parsed.port) ? `:${parsed.port}` : '';
+
+    const path = parsed.pathname
+      .replace(/\/{2,}/g, '/')
+      .replace(/\/index\.(html?|php|aspx?)$/i, '/')
+      .replace(/\/+$/, '');
+
+    parsed.searchParams.sort();
+    const query = parsed.searchParams.toString();
+
+    // Scheme is dropped so http and https copies of a page collapse together
+    return `${host}${port}${path || ''}${query ? `?${query}` : ''}`;
+  } catch {
+    return url.trim().toLowerCase();
+  }
+}
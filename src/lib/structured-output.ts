@@ -0,0 +1,195 @@
+// Shared handling of model output that has to follow a declared shape: JSON
+// extraction, schema validation and the counters behind the repair re-prompt
+// (see OpenRouterClient.chatStructured).
+
+export type SchemaNode =
+  | { type: 'string'; enum?: readonly string[]; optional?: boolean }
+  | { type: 'number'; min?: number; max?: number; optional?: boolean }
+  | { type: 'boolean'; optional?: boolean }
+  | { type: 'array'; items: SchemaNode; minItems?: number; optional?: boolean }
+  | { type: 'object'; properties: Record<string, SchemaNode>; optional?: boolean };
+
+export type ParseResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; stage: 'parse' | 'validation'; errors: string[] };
+
+export interface OutputSchema<T> {
+  name: string;
+  // JSON outputs are requested in JSON mode where the model supports it
+  format: 'json' | 'markdown';
+  parse(content: string): ParseResult<T>;
+}
+
+export interface StructuredOutputStats {
+  requests: number;
+  // Responses with no parseable JSON, and parseable ones that broke the schema
+  parseFailures: number;
+  validationFailures: number;
+  repairs: number;
+  // Requests still invalid after the repair re-prompt
+  failures: number;
+}
+
+// Thrown when a response is still invalid after the repair re-prompt
+export class StructuredOutputError extends Error {
+  readonly errors: string[];
+
+  constructor(schemaName: string, errors: string[]) {
+    super(`Invalid ${schemaName} output: ${errors.slice(0, 3).join('; ')}`);
+    this.name = 'StructuredOutputError';
+    this.errors = errors;
+  }
+}
+
+export function createStructuredOutputStats(): StructuredOutputStats {
+  return { requests: 0, parseFailures: 0, validationFailures: 0, repairs: 0, failures: 0 };
+}
+
+export function formatStructuredOutputStats(stats: StructuredOutputStats): string {
+  return `structured output: ${stats.requests} request${stats.requests === 1 ? '' : 's'}, ` +
+    `${stats.parseFailures + stats.validationFailures} invalid, ${stats.repairs} repaired, ${stats.failures} failed`;
+}
+
+// End of the JSON value starting at `start`, skipping brackets inside strings
+function findValueEnd(text: string, start: number): number {
+  const stack: string[] = [];
+  let inString = false;
+
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (char === '\\') i++;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === '{' || char === '[') {
+      stack.push(char === '{' ? '}' : ']');
+    } else if (char === '}' || char === ']') {
+      if (stack.pop() !== char) return -1;
+      if (stack.length === 0) return i;
+    }
+  }
+  return -1;
+}
+
+// The first well-formed JSON object or array in a model response, which may
+// wrap it in a code fence or surround it with prose (where a "[1]" citation
+// should not be taken for the expected object)
+export function extractJson(content: string, expect?: 'object' | 'array'): unknown {
+  const opening = expect === 'object' ? ['{'] : expect === 'array' ? ['['] : ['{', '['];
+  const text = content.replace(/```(?:json)?/gi, '').trim();
+  try {
+    return JSON.parse(text);
+  } catch {
+    // Not bare JSON; look for an embedded value
+  }
+
+  for (let start = 0; start < text.length; start++) {
+    if (!opening.includes(text[start])) continue;
+    const end = findValueEnd(text, start);
+    if (end < 0) continue;
+    try {
+      return JSON.parse(text.slice(start, end + 1));
+    } catch {
+      // Try the next candidate
+    }
+  }
+  throw new Error('No JSON object or array found in response');
+}
+
+// Returns the value with light coercion (numeric strings to numbers, numbers
+// to strings), collecting one error per violation with its JSON path
+function validateNode(value: unknown, node: SchemaNode, path: string, errors: string[]): unknown {
+  if (value === undefined || value === null) {
+    if (!node.optional) errors.push(`${path}: required`);
+    return undefined;
+  }
+
+  switch (node.type) {
+    case 'string': {
+      const text = typeof value === 'number' || typeof value === 'boolean' ? String(value) : value;
+      if (typeof text !== 'string') {
+        errors.push(`${path}: expected a string`);
+        return undefined;
+      }
+      if (node.enum && !node.enum.includes(text)) {
+        errors.push(`${path}: expected one of ${node.enum.join(', ')}`);
+      }
+      return text;
+    }
+    case 'number': {
+      const number = typeof value === 'string' && value.trim() ? Number(value) : value;
+      if (typeof number !== 'number' || isNaN(number)) {
+        errors.push(`${path}: expected a number`);
+        return undefined;
+      }
+      if ((node.min !== undefined && number < node.min) || (node.max !== undefined && number > node.max)) {
+        errors.push(`${path}: expected a number from ${node.min ?? '-∞'} to ${node.max ?? '∞'}`);
+      }
+      return number;
+    }
+    case 'boolean':
+      if (typeof value !== 'boolean') {
+        errors.push(`${path}: expected true or false`);
+      }
+      return value;
+    case 'array':
+      if (!Array.isArray(value)) {
+        errors.push(`${path}: expected an array`);
+        return undefined;
+      }
+      if (node.minItems !== undefined && value.length < node.minItems) {
+        errors.push(`${path}: expected at least ${node.minItems} item${node.minItems === 1 ? '' : 's'}`);
+      }
+      return value.map((item, index) => validateNode(item, node.items, `${path}[${index}]`, errors));
+    case 'object': {
+      if (typeof value !== 'object' || Array.isArray(value)) {
+        errors.push(`${path}: expected an object`);
+        return undefined;
+      }
+      const record = value as Record<string, unknown>;
+      return Object.fromEntries(Object.entries(node.properties).map(([key, child]) =>
+        [key, validateNode(record[key], child, `${path}.${key}`, errors)]
+      ));
+    }
+  }
+}
+
+export function jsonOutput<T>(name: string, root: SchemaNode): OutputSchema<T> {
+  return {
+    name,
+    format: 'json',
+    parse(content: string): ParseResult<T> {
+      let data: unknown;
+      try {
+        data = extractJson(content, root.type === 'object' || root.type === 'array' ? root.type : undefined);
+      } catch (error) {
+        return { ok: false, stage: 'parse', errors: [error instanceof Error ? error.message : String(error)] };
+      }
+
+      const errors: string[] = [];
+      const value = validateNode(data, root, '$', errors);
+      return errors.length > 0 ? { ok: false, stage: 'validation', errors } : { ok: true, value: value as T };
+    }
+  };
+}
+
+// Free-text outputs (e.g. a markdown report) checked by a function that lists
+// what is wrong with them
+export function markdownOutput(name: string, check: (content: string) => string[]): OutputSchema<string> {
+  return {
+    name,
+    format: 'markdown',
+    parse(content: string): ParseResult<string> {
+      const errors = check(content);
+      return errors.length > 0 ? { ok: false, stage: 'validation', errors } : { ok: true, value: content };
+    }
+  };
+}
+
+export function createRepairPrompt(schema: OutputSchema<unknown>, errors: string[]): string {
+  const problems = errors.slice(0, 10).map(error => `- ${error}`).join('\n');
+  return schema.format === 'json'
+    ? `Your response could not be used:\n${problems}\n\nReply with only the corrected JSON, following the format requested above, with no other text.`
+    : `Your response does not meet the requirements:\n${problems}\n\nReply with the complete corrected response.`;
+}